@@ -0,0 +1,291 @@
+import OpenAI from "openai";
+import type { AiOperation } from "@shared/schema";
+
+export interface AiCompletionRequest {
+  operation: AiOperation;
+  system: string;
+  prompt: string;
+  maxTokens: number;
+  temperature: number;
+  // Overrides the provider's configured model.
+  model?: string;
+  // Structured inputs the prompt was built from. Real providers only see the
+  // prompt text; the fixture provider uses these to build its output.
+  context?: Record<string, string>;
+}
+
+export interface AiCompletion {
+  content: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AiStreamOptions {
+  signal?: AbortSignal;
+  onDelta: (delta: string) => void;
+}
+
+export interface AiProvider {
+  readonly name: string;
+  readonly model: string;
+  complete(request: AiCompletionRequest): Promise<AiCompletion>;
+  stream(request: AiCompletionRequest, options: AiStreamOptions): Promise<AiCompletion>;
+}
+
+export class OpenAiProvider implements AiProvider {
+  readonly name: string = "openai";
+  protected readonly client: OpenAI;
+
+  constructor(readonly model: string, options: { apiKey?: string; baseURL?: string } = {}) {
+    this.client = new OpenAI({
+      apiKey: options.apiKey,
+      baseURL: options.baseURL,
+    });
+  }
+
+  async complete(request: AiCompletionRequest): Promise<AiCompletion> {
+    const response = await this.client.chat.completions.create({
+      model: request.model || this.model,
+      messages: [
+        { role: "system", content: request.system },
+        { role: "user", content: request.prompt },
+      ],
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+    });
+
+    return {
+      content: response.choices[0]?.message?.content || "",
+      model: response.model || request.model || this.model,
+      promptTokens: response.usage?.prompt_tokens ?? 0,
+      completionTokens: response.usage?.completion_tokens ?? 0,
+    };
+  }
+
+  async stream(request: AiCompletionRequest, options: AiStreamOptions): Promise<AiCompletion> {
+    const stream = await this.client.chat.completions.create(
+      {
+        model: request.model || this.model,
+        messages: [
+          { role: "system", content: request.system },
+          { role: "user", content: request.prompt },
+        ],
+        max_tokens: request.maxTokens,
+        temperature: request.temperature,
+        stream: true,
+        stream_options: { include_usage: true },
+      },
+      { signal: options.signal }
+    );
+
+    let content = "";
+    let model = request.model || this.model;
+    let promptTokens = 0;
+    let completionTokens = 0;
+
+    for await (const chunk of stream) {
+      const delta = chunk.choices[0]?.delta?.content;
+      if (delta) {
+        content += delta;
+        options.onDelta(delta);
+      }
+      if (chunk.model) model = chunk.model;
+      if (chunk.usage) {
+        promptTokens = chunk.usage.prompt_tokens;
+        completionTokens = chunk.usage.completion_tokens;
+      }
+    }
+
+    return { content, model, promptTokens, completionTokens };
+  }
+}
+
+/**
+ * Any server that speaks the OpenAI chat completions API (vLLM, Ollama,
+ * LM Studio, LiteLLM, ...). Self-hosted servers often ignore the API key.
+ */
+export class OpenAiCompatibleProvider extends OpenAiProvider {
+  readonly name = "openai-compatible";
+
+  constructor(model: string, baseURL: string, apiKey?: string) {
+    super(model, { baseURL, apiKey: apiKey || "not-needed" });
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Deterministic, offline provider for CI and local development. The same
+ * request always produces the same output, and nothing touches the network.
+ */
+export class FixtureProvider implements AiProvider {
+  readonly name = "fixture";
+  readonly model = "fixture";
+
+  async complete(request: AiCompletionRequest): Promise<AiCompletion> {
+    const content = this.render(request);
+    return {
+      content,
+      model: this.model,
+      promptTokens: estimateTokens(request.system + request.prompt),
+      completionTokens: estimateTokens(content),
+    };
+  }
+
+  async stream(request: AiCompletionRequest, options: AiStreamOptions): Promise<AiCompletion> {
+    const completion = await this.complete(request);
+    const chunkSize = 256;
+
+    for (let i = 0; i < completion.content.length; i += chunkSize) {
+      if (options.signal?.aborted) {
+        throw new Error("Request was aborted");
+      }
+      options.onDelta(completion.content.slice(i, i + chunkSize));
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    return completion;
+  }
+
+  private render(request: AiCompletionRequest): string {
+    const context = request.context || {};
+
+    switch (request.operation) {
+      case "website":
+        return JSON.stringify(this.renderWebsite(context));
+      case "section": {
+        const sectionHtml = context.sectionHtml || `<section data-section="${escapeHtml(context.sectionName || "section")}"></section>`;
+        const note = `<p class="fixture-note">Updated: ${escapeHtml(context.instructions || "")}</p>`;
+        const closeAt = sectionHtml.lastIndexOf("</");
+        const html = closeAt === -1 ? sectionHtml : sectionHtml.slice(0, closeAt) + note + sectionHtml.slice(closeAt);
+        return JSON.stringify({ html });
+      }
+      case "page": {
+        const title = escapeHtml(context.title || "Page");
+        const instructions = escapeHtml(context.instructions || "");
+        return JSON.stringify({
+          html: `<section data-section="page-hero" class="hero"><h1>${title}</h1><p>${instructions}</p></section>\n<section data-section="page-content"><h2>${title}</h2><p>${escapeHtml(context.businessName || "")} ${title.toLowerCase()}.</p></section>`,
+          metaDescription: `${context.title || "Page"} - ${context.businessName || ""}`.slice(0, 155),
+        });
+      }
+      case "design":
+        return `Design suggestions for: ${request.prompt}\n\n1. Use a bold hero with a gradient overlay.\n2. Pair Inter headings with generous 80px section padding.\n3. Lift cards on hover with soft layered shadows.`;
+      case "seo":
+        return `SEO recommendations for: ${request.prompt}\n\nTitle: ${request.prompt.slice(0, 60)}\nMeta description: ${request.prompt.slice(0, 155)}\nKeywords: ${request.prompt.toLowerCase().split(/\W+/).filter((word) => word.length > 3).slice(0, 8).join(", ")}`;
+      case "content":
+      default:
+        return `Generated content for: ${request.prompt}`;
+    }
+  }
+
+  private renderWebsite(context: Record<string, string>): { html: string; css: string } {
+    const name = escapeHtml(context.businessName || "Your Business");
+    const type = escapeHtml(context.businessType || "Business");
+    const description = escapeHtml(context.description || "");
+    const color = escapeHtml(context.primaryColor || "#3B82F6");
+    const sections = (context.sections || "hero,features,about,testimonials,pricing,contact,footer")
+      .split(",")
+      .map((section) => section.trim())
+      .filter(Boolean);
+
+    const body = sections.map((section) => {
+      const title = escapeHtml(section.charAt(0).toUpperCase() + section.slice(1));
+      const marker = `data-section="${escapeHtml(section)}"`;
+      if (section === "hero") {
+        return `<section id="hero" ${marker} class="hero"><h1>${name}</h1><p>${description}</p><a class="btn" href="#contact">Get Started</a></section>`;
+      }
+      if (section === "contact") {
+        return `<section id="contact" ${marker}><h2>Contact</h2><form><input name="name" placeholder="Name"><input name="email" type="email" placeholder="Email"><textarea name="message" placeholder="Message"></textarea><button type="submit" class="btn">Send</button></form></section>`;
+      }
+      if (section === "footer") {
+        return `<footer id="footer" ${marker}><p>&copy; ${name}</p></footer>`;
+      }
+      return `<section id="${escapeHtml(section)}" ${marker}><h2>${title}</h2><p>${type} ${title.toLowerCase()} for ${name}.</p></section>`;
+    }).join("\n");
+
+    const css = `:root { --primary: ${color}; }
+body { margin: 0; font-family: Inter, sans-serif; color: #1a1a2e; scroll-behavior: smooth; }
+section, footer { padding: 80px 24px; }
+.hero { min-height: 100vh; background: linear-gradient(135deg, var(--primary), #1a1a2e); color: #fff; }
+.btn { display: inline-block; padding: 12px 24px; border-radius: 16px; background: var(--primary); color: #fff; }`;
+
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${name}</title>
+<link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Inter:wght@400;600;800&display=swap">
+<style>${css}</style>
+</head>
+<body>
+${body}
+</body>
+</html>`;
+
+    return { html, css: "" };
+  }
+}
+
+// Socket and DNS failures worth another try, on the error or its cause.
+const TRANSIENT_NETWORK_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "EAI_AGAIN", "EPIPE", "UND_ERR_SOCKET"]);
+
+/**
+ * Whether a failed generation may succeed if tried again later: lost
+ * connections, timeouts, rate limits and provider server errors. Anything
+ * else, such as a missing project or a response that can't be used, would
+ * fail the same way again.
+ */
+export function isTransientAiError(error: unknown): boolean {
+  if (error instanceof OpenAI.APIUserAbortError) return false;
+  if (error instanceof OpenAI.APIConnectionError) return true;
+  if (error instanceof OpenAI.APIError) {
+    const { status } = error;
+    return status === 408 || status === 409 || status === 429 || (status !== undefined && status >= 500);
+  }
+  for (let current = error; current instanceof Error; current = current.cause) {
+    const { code } = current as Error & { code?: unknown };
+    if (typeof code === "string" && TRANSIENT_NETWORK_CODES.has(code)) return true;
+  }
+  return false;
+}
+
+export function createAiProvider(): AiProvider {
+  const providerName = process.env.AI_PROVIDER || "openai";
+  const model = process.env.AI_MODEL || "gpt-4o";
+
+  switch (providerName) {
+    case "fixture":
+      return new FixtureProvider();
+    case "openai-compatible": {
+      if (!process.env.AI_BASE_URL) {
+        throw new Error("AI_BASE_URL must be set when AI_PROVIDER=openai-compatible");
+      }
+      return new OpenAiCompatibleProvider(model, process.env.AI_BASE_URL, process.env.AI_API_KEY);
+    }
+    case "openai":
+      return new OpenAiProvider(model, { apiKey: process.env.AI_API_KEY || process.env.OPENAI_API_KEY });
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${providerName}"`);
+  }
+}
+
+let provider: AiProvider | undefined;
+
+export function getAiProvider(): AiProvider {
+  if (!provider) {
+    provider = createAiProvider();
+  }
+  return provider;
+}
@@ -0,0 +1,156 @@
+import { storage } from "./storage";
+import type { AiCompletion, AiCompletionRequest } from "./ai-provider";
+import type { AiGeneration, AiOperation, AiUsageReportRow } from "@shared/schema";
+
+// US dollars per million tokens.
+export interface AiPrice {
+  input: number;
+  output: number;
+}
+
+const DEFAULT_AI_PRICES: Record<string, AiPrice> = {
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  fixture: { input: 0, output: 0 },
+};
+
+// HTML output is kept in project revisions and pages; only text results are
+// copied into the generation log.
+const TEXT_OPERATIONS: AiOperation[] = ["content", "design", "seo"];
+
+/**
+ * Parses AI_PRICES, a JSON object of model name to { "input", "output" }
+ * prices in US dollars per million tokens, e.g.
+ * {"llama3:70b": {"input": 0.6, "output": 0.8}}. Entries are merged over the
+ * defaults above.
+ */
+export function parseAiPrices(spec: string | undefined): Record<string, AiPrice> {
+  if (!spec) return { ...DEFAULT_AI_PRICES };
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(spec);
+  } catch {
+    throw new Error("AI_PRICES must be a JSON object");
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error("AI_PRICES must be a JSON object");
+  }
+
+  const prices = { ...DEFAULT_AI_PRICES };
+  for (const [model, price] of Object.entries(parsed as Record<string, unknown>)) {
+    const { input, output } = (price || {}) as Partial<AiPrice>;
+    if (typeof input !== "number" || typeof output !== "number" || input < 0 || output < 0) {
+      throw new Error(`Invalid AI_PRICES entry for "${model}"; expected {"input": number, "output": number}`);
+    }
+    prices[model] = { input, output };
+  }
+  return prices;
+}
+
+let aiPrices: Record<string, AiPrice> | undefined;
+
+function getAiPrices(): Record<string, AiPrice> {
+  if (!aiPrices) {
+    aiPrices = parseAiPrices(process.env.AI_PRICES);
+  }
+  return aiPrices;
+}
+
+// Providers report dated model names such as "gpt-4o-2024-08-06", so the
+// longest priced name the model starts with is used.
+export function priceFor(model: string, prices: Record<string, AiPrice> = getAiPrices()): AiPrice | null {
+  if (prices[model]) return prices[model];
+  const match = Object.keys(prices)
+    .filter((name) => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return match ? prices[match] : null;
+}
+
+// In millionths of a US dollar, or null when the model has no price.
+export function estimateCostMicros(
+  model: string,
+  promptTokens: number,
+  completionTokens: number,
+  prices?: Record<string, AiPrice>
+): number | null {
+  const price = priceFor(model, prices);
+  if (!price) return null;
+  return Math.round(promptTokens * price.input + completionTokens * price.output);
+}
+
+export interface AiUsageContext {
+  userId: string;
+  workspaceId?: string | null;
+  projectId?: string | null;
+}
+
+/**
+ * Runs one provider call and records its model, token counts, latency and
+ * estimated cost against `usage`. The call is recorded as soon as the
+ * provider answers, so responses that later fail to parse are still counted.
+ * Recording failures are logged rather than thrown.
+ */
+export async function meteredCompletion(
+  usage: AiUsageContext,
+  request: AiCompletionRequest,
+  summary: string,
+  call: () => Promise<AiCompletion>
+): Promise<AiCompletion> {
+  const startedAt = Date.now();
+  const completion = await call();
+  const latencyMs = Date.now() - startedAt;
+
+  try {
+    await storage.logAiGeneration({
+      userId: usage.userId,
+      workspaceId: usage.workspaceId ?? null,
+      projectId: usage.projectId ?? null,
+      operation: request.operation,
+      model: completion.model,
+      prompt: summary,
+      result: TEXT_OPERATIONS.includes(request.operation) ? completion.content : null,
+      promptTokens: completion.promptTokens,
+      completionTokens: completion.completionTokens,
+      tokensUsed: completion.promptTokens + completion.completionTokens,
+      latencyMs,
+      estimatedCostMicros: estimateCostMicros(completion.model, completion.promptTokens, completion.completionTokens),
+    });
+  } catch (error) {
+    console.error(`AI usage log error (${request.operation}):`, error);
+  }
+
+  return completion;
+}
+
+export function microsToUsd(micros: number): number {
+  return Math.round(micros) / 1_000_000;
+}
+
+export function withEstimatedCostUsd(entry: AiGeneration) {
+  return {
+    ...entry,
+    estimatedCostUsd: entry.estimatedCostMicros === null ? null : microsToUsd(entry.estimatedCostMicros),
+  };
+}
+
+// Adds dollar amounts to a usage report and totals it.
+export function summarizeAiUsage(rows: AiUsageReportRow[]) {
+  const totals = rows.reduce(
+    (sum, row) => ({
+      generations: sum.generations + row.generations,
+      promptTokens: sum.promptTokens + row.promptTokens,
+      completionTokens: sum.completionTokens + row.completionTokens,
+      estimatedCostMicros: sum.estimatedCostMicros + row.estimatedCostMicros,
+      unpricedGenerations: sum.unpricedGenerations + row.unpricedGenerations,
+    }),
+    { generations: 0, promptTokens: 0, completionTokens: 0, estimatedCostMicros: 0, unpricedGenerations: 0 }
+  );
+  return {
+    rows: rows.map((row) => ({ ...row, estimatedCostUsd: microsToUsd(row.estimatedCostMicros) })),
+    totals: { ...totals, estimatedCostUsd: microsToUsd(totals.estimatedCostMicros) },
+  };
+}
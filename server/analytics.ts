@@ -0,0 +1,71 @@
+import { createHash, createHmac } from "crypto";
+
+export const ANALYTICS_ENDPOINT = "/api/analytics/collect";
+
+const ANALYTICS_SECRET = process.env.ANALYTICS_SALT || process.env.SESSION_SECRET || "siteforgeai-analytics-salt";
+
+const BOT_PATTERN = /bot|crawl|spider|slurp|headless|lighthouse|preview|monitor|curl|wget|python-requests/i;
+
+// The beacon is a fixed string so published pages can allow exactly this
+// script by hash while the Content-Security-Policy still blocks every other
+// script. Per-page values are read from the element's data attributes.
+const BEACON_SCRIPT = `(function(){var s=document.currentScript;if(!s||navigator.doNotTrack==="1")return;var b=JSON.stringify({p:s.getAttribute("data-project"),u:s.getAttribute("data-path"),r:document.referrer});if(navigator.sendBeacon){navigator.sendBeacon("${ANALYTICS_ENDPOINT}",b)}else{fetch("${ANALYTICS_ENDPOINT}",{method:"POST",body:b,keepalive:true})}})();`;
+
+export const BEACON_SCRIPT_HASH = `sha256-${createHash("sha256").update(BEACON_SCRIPT).digest("base64")}`;
+
+export type DeviceType = "desktop" | "mobile" | "tablet";
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+}
+
+export function injectAnalyticsBeacon(html: string, projectId: string, path: string): string {
+  const tag = `<script data-project="${escapeAttribute(projectId)}" data-path="${escapeAttribute(path)}">${BEACON_SCRIPT}</script>`;
+  const bodyEnd = html.search(/<\/body>/i);
+  if (bodyEnd === -1) {
+    return html + tag;
+  }
+  return html.slice(0, bodyEnd) + tag + html.slice(bodyEnd);
+}
+
+export function isBot(userAgent: string): boolean {
+  return !userAgent || BOT_PATTERN.test(userAgent);
+}
+
+export function classifyDevice(userAgent: string): DeviceType {
+  if (/ipad|tablet|playbook|silk|android(?!.*mobile)/i.test(userAgent)) return "tablet";
+  if (/mobi|iphone|ipod|android|blackberry|opera mini|iemobile/i.test(userAgent)) return "mobile";
+  return "desktop";
+}
+
+/**
+ * Reduces a referrer URL to its host. Referrers from the site itself and
+ * anything that isn't an http(s) URL count as direct traffic (null).
+ */
+export function normalizeReferrer(referrer: string | undefined, siteHost: string | undefined): string | null {
+  if (!referrer) return null;
+  try {
+    const url = new URL(referrer);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    const host = url.hostname.toLowerCase().replace(/^www\./, "");
+    const ownHost = (siteHost || "").toLowerCase().replace(/:\d+$/, "").replace(/^www\./, "");
+    return host === ownHost ? null : host;
+  } catch {
+    return null;
+  }
+}
+
+export function normalizeViewPath(path: string): string {
+  const cleaned = path.split(/[?#]/)[0].replace(/\/{2,}/g, "/").slice(0, 512);
+  return cleaned.startsWith("/") ? cleaned : `/${cleaned}`;
+}
+
+/**
+ * Anonymous visitor id: a keyed hash of the project, IP address and user agent
+ * under a key that changes every UTC day. Nothing is stored on the visitor's
+ * device and the same person can't be linked across days or across sites.
+ */
+export function hashVisitorId(projectId: string, ip: string, userAgent: string, date = new Date()): string {
+  const dailyKey = createHmac("sha256", ANALYTICS_SECRET).update(date.toISOString().slice(0, 10)).digest();
+  return createHmac("sha256", dailyKey).update(`${projectId}|${ip}|${userAgent}`).digest("hex").slice(0, 32);
+}
@@ -0,0 +1,86 @@
+import { storage } from "./storage";
+import { toCsv } from "./csv";
+import type { AuthRequest } from "./auth";
+import type { AuditAction, AuditChanges, AuditLog, AuditTargetType } from "@shared/schema";
+
+// Long values such as page HTML are summarised rather than copied into the log.
+const MAX_AUDIT_VALUE_LENGTH = 500;
+
+export interface AuditEntry {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  changes?: AuditChanges | null;
+  metadata?: Record<string, unknown> | null;
+}
+
+function auditValue(value: unknown): unknown {
+  if (value === undefined) return null;
+  if (typeof value === "string" && value.length > MAX_AUDIT_VALUE_LENGTH) {
+    return `[${value.length} characters]`;
+  }
+  return value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+/**
+ * The fields that differ between two versions of a record, limited to
+ * `fields` when given. Either side may be missing, for creations and
+ * deletions.
+ */
+export function diffRecords(
+  before: object | null | undefined,
+  after: object | null | undefined,
+  fields?: string[]
+): AuditChanges {
+  const beforeRecord = (before || {}) as Record<string, unknown>;
+  const afterRecord = (after || {}) as Record<string, unknown>;
+  const keys = fields || Array.from(new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]));
+
+  const changes: AuditChanges = {};
+  for (const key of keys) {
+    if (sameValue(beforeRecord[key], afterRecord[key])) continue;
+    changes[key] = { before: auditValue(beforeRecord[key]), after: auditValue(afterRecord[key]) };
+  }
+  return changes;
+}
+
+/**
+ * Appends an entry to the audit log. `req` identifies the acting admin and
+ * where the request came from; pass null for system changes such as billing
+ * webhooks. Failures are logged rather than thrown, as the action itself has
+ * already happened.
+ */
+export async function recordAudit(req: AuthRequest | null, entry: AuditEntry): Promise<void> {
+  try {
+    await storage.createAuditLog({
+      ...entry,
+      actorId: req?.user?.id ?? null,
+      actorEmail: req?.user?.email ?? null,
+      ipAddress: req?.ip ?? null,
+      userAgent: req?.get("user-agent") ?? null,
+    });
+  } catch (error) {
+    console.error(`Audit log error (${entry.action} ${entry.targetType} ${entry.targetId}):`, error);
+  }
+}
+
+export function auditLogsToCsv(entries: AuditLog[]): string {
+  const header = ["created_at", "actor_id", "actor_email", "action", "target_type", "target_id", "changes", "metadata", "ip_address", "user_agent"];
+  const rows = entries.map((entry) => [
+    entry.createdAt.toISOString(),
+    entry.actorId || "",
+    entry.actorEmail || "",
+    entry.action,
+    entry.targetType,
+    entry.targetId,
+    entry.changes ? JSON.stringify(entry.changes) : "",
+    entry.metadata ? JSON.stringify(entry.metadata) : "",
+    entry.ipAddress || "",
+    entry.userAgent || "",
+  ]);
+  return toCsv([header, ...rows]);
+}
@@ -0,0 +1,140 @@
+import type { Response } from "express";
+import jwt from "jsonwebtoken";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { User } from "@shared/schema";
+
+vi.mock("./storage", () => ({
+  storage: {
+    getUser: vi.fn(),
+  },
+}));
+
+import { storage } from "./storage";
+import {
+  ACCESS_TOKEN_TTL_SECONDS,
+  REFRESH_TOKEN_TTL_MS,
+  authMiddleware,
+  buildRefreshToken,
+  generateToken,
+  hashToken,
+  verifyToken,
+  type AuthRequest,
+} from "./auth";
+
+const user = {
+  id: "user-1",
+  email: "ada@example.com",
+  name: "Ada",
+  password: "hash",
+  role: "CLIENT",
+  tokenVersion: 3,
+  suspendedAt: null,
+} as User;
+
+function mockResponse() {
+  const res = { statusCode: 200, body: undefined as unknown } as Response & { body: unknown };
+  res.status = vi.fn((code: number) => {
+    res.statusCode = code;
+    return res;
+  });
+  res.json = vi.fn((body: unknown) => {
+    res.body = body;
+    return res;
+  });
+  return res;
+}
+
+async function authenticate(token: string) {
+  const req = { headers: { authorization: `Bearer ${token}` } } as AuthRequest;
+  const res = mockResponse();
+  const next = vi.fn();
+  await authMiddleware(req, res, next);
+  return { req, res, next };
+}
+
+describe("access tokens", () => {
+  it("carry the user's token version and expire with the access TTL", () => {
+    const payload = verifyToken(generateToken(user));
+
+    expect(payload).toMatchObject({ id: user.id, email: user.email, role: "CLIENT", tv: 3 });
+    expect((payload as any).exp - (payload as any).iat).toBe(ACCESS_TOKEN_TTL_SECONDS);
+  });
+
+  it("are rejected when tampered with or signed with another secret", () => {
+    const token = generateToken(user);
+    const [header, , signature] = token.split(".");
+    const forged = Buffer.from(JSON.stringify({ id: "admin-1", role: "ADMIN", tv: 0 })).toString("base64url");
+
+    expect(verifyToken(`${header}.${forged}.${signature}`)).toBeNull();
+    expect(verifyToken(jwt.sign({ id: user.id, tv: 3 }, "another-secret"))).toBeNull();
+    expect(verifyToken("not-a-token")).toBeNull();
+  });
+});
+
+describe("buildRefreshToken", () => {
+  it("stores only the hash of the token", () => {
+    const { refreshToken, record } = buildRefreshToken(user.id, "agent");
+
+    expect(record.tokenHash).toBe(hashToken(refreshToken));
+    expect(record.tokenHash).not.toContain(refreshToken);
+    expect(record.expiresAt.getTime() - Date.now()).toBeGreaterThan(REFRESH_TOKEN_TTL_MS - 60_000);
+  });
+
+  it("keeps the family when rotating and starts a new one otherwise", () => {
+    const first = buildRefreshToken(user.id, undefined);
+    const rotated = buildRefreshToken(user.id, undefined, first.record.familyId);
+
+    expect(rotated.record.familyId).toBe(first.record.familyId);
+    expect(rotated.refreshToken).not.toBe(first.refreshToken);
+    expect(buildRefreshToken(user.id, undefined).record.familyId).not.toBe(first.record.familyId);
+  });
+
+  it("truncates long user agents", () => {
+    expect(buildRefreshToken(user.id, "a".repeat(2000)).record.userAgent).toHaveLength(512);
+    expect(buildRefreshToken(user.id, undefined).record.userAgent).toBeNull();
+  });
+});
+
+describe("authMiddleware", () => {
+  beforeEach(() => {
+    vi.mocked(storage.getUser).mockReset().mockResolvedValue(user);
+  });
+
+  it("accepts a current token and strips secrets from req.user", async () => {
+    const { req, next } = await authenticate(generateToken(user));
+
+    expect(next).toHaveBeenCalled();
+    expect(req.user).toMatchObject({ id: user.id });
+    expect(req.user).not.toHaveProperty("password");
+    expect(req.user).not.toHaveProperty("tokenVersion");
+  });
+
+  it("rejects tokens issued before the token version was bumped", async () => {
+    const token = generateToken(user);
+    vi.mocked(storage.getUser).mockResolvedValue({ ...user, tokenVersion: user.tokenVersion + 1 });
+
+    const { res, next } = await authenticate(token);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  it("rejects tokens of deleted users", async () => {
+    vi.mocked(storage.getUser).mockResolvedValue(undefined);
+
+    const { res, next } = await authenticate(generateToken(user));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(401);
+  });
+
+  it("turns away suspended users", async () => {
+    vi.mocked(storage.getUser).mockResolvedValue({ ...user, suspendedAt: new Date() });
+
+    const { res, next } = await authenticate(generateToken(user));
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.statusCode).toBe(403);
+    expect(res.body).toMatchObject({ suspended: true });
+  });
+});
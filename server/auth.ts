@@ -1,17 +1,37 @@
 import jwt from "jsonwebtoken";
 import bcrypt from "bcrypt";
+import { createHash, randomBytes, randomUUID } from "crypto";
 import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { getMailer } from "./mailer";
+import { passwordResetEmail, verificationEmail } from "./emails";
+import type { AccountTokenPurpose, ApiKey, ApiKeyScope, User } from "@shared/schema";
 
 const JWT_SECRET = process.env.SESSION_SECRET || "siteforgeai-jwt-secret-key";
-const JWT_EXPIRES_IN = "7d";
 const SALT_ROUNDS = 10;
 
+// Access tokens are short-lived; clients renew them with a refresh token.
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const API_KEY_PREFIX = "sfk_";
+
+// lastUsedAt is only rewritten when it's older than this, so a busy script
+// doesn't turn every request into a write.
+const API_KEY_TOUCH_INTERVAL_MS = 60 * 1000;
+
+const ACCOUNT_TOKEN_TTL_MS: Record<AccountTokenPurpose, number> = {
+  email_verification: 24 * 60 * 60 * 1000,
+  password_reset: 60 * 60 * 1000,
+};
+
 export interface UserSafe {
   id: string;
   email: string;
   name: string;
   role: "ADMIN" | "CLIENT";
   avatarUrl: string | null;
+  emailVerified: boolean;
   aiGenerationsUsed: number;
   aiGenerationsLimit: number;
   planType: "free" | "pro" | "enterprise";
@@ -19,11 +39,16 @@ export interface UserSafe {
   stripeCustomerId: string | null;
   stripeSubscriptionId: string | null;
   subscriptionEndDate: Date | null;
+  suspendedAt: Date | null;
+  suspendedReason: string | null;
   createdAt: Date;
 }
 
 export interface AuthRequest extends Request {
   user?: UserSafe;
+  // Set when the request was authenticated with an API key rather than a
+  // user session.
+  apiKey?: Pick<ApiKey, "id" | "scopes">;
 }
 
 export async function hashPassword(password: string): Promise<string> {
@@ -34,26 +59,125 @@ export async function comparePassword(password: string, hash: string): Promise<b
   return bcrypt.compare(password, hash);
 }
 
-export function generateToken(user: UserSafe): string {
+export interface AccessTokenPayload {
+  id: string;
+  email: string;
+  role: string;
+  tv: number;
+}
+
+export interface Session {
+  token: string;
+  refreshToken: string;
+  expiresIn: number;
+}
+
+export function generateToken(user: Pick<User, "id" | "email" | "role" | "tokenVersion">): string {
   return jwt.sign(
     {
       id: user.id,
       email: user.email,
       role: user.role,
+      tv: user.tokenVersion,
     },
     JWT_SECRET,
-    { expiresIn: JWT_EXPIRES_IN }
+    { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
   );
 }
 
-export function verifyToken(token: string): { id: string; email: string; role: string } | null {
+export function verifyToken(token: string): AccessTokenPayload | null {
   try {
-    return jwt.verify(token, JWT_SECRET) as { id: string; email: string; role: string };
+    return jwt.verify(token, JWT_SECRET) as AccessTokenPayload;
   } catch {
     return null;
   }
 }
 
+// Refresh tokens and emailed links are stored only as this hash.
+export function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+/**
+ * Generates a refresh token and the row to store for it; only the hash is
+ * stored. Pass `familyId` when rotating so the new token stays in the same
+ * session.
+ */
+export function buildRefreshToken(userId: string, userAgent: string | undefined, familyId: string = randomUUID()) {
+  const refreshToken = randomBytes(32).toString("base64url");
+  return {
+    refreshToken,
+    record: {
+      userId,
+      familyId,
+      tokenHash: hashToken(refreshToken),
+      userAgent: userAgent ? userAgent.slice(0, 512) : null,
+      expiresAt: new Date(Date.now() + REFRESH_TOKEN_TTL_MS),
+    },
+  };
+}
+
+export async function createSession(user: User, userAgent: string | undefined): Promise<Session> {
+  const { refreshToken, record } = buildRefreshToken(user.id, userAgent);
+  await storage.createRefreshToken(record);
+  return { token: generateToken(user), refreshToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+}
+
+// Returns the key to show the user once, and the prefix and hash to store.
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString("base64url")}`;
+  return { key, prefix: key.slice(0, API_KEY_PREFIX.length + 8), keyHash: hashToken(key) };
+}
+
+// A random token for an emailed link, and the hash to store for it.
+export function generateLinkToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { token, tokenHash: hashToken(token) };
+}
+
+async function issueAccountToken(userId: string, purpose: AccountTokenPurpose): Promise<string> {
+  const { token, tokenHash } = generateLinkToken();
+  await storage.replaceAccountToken({
+    userId,
+    purpose,
+    tokenHash,
+    expiresAt: new Date(Date.now() + ACCOUNT_TOKEN_TTL_MS[purpose]),
+  });
+  return token;
+}
+
+export async function sendVerificationEmail(user: User): Promise<void> {
+  const token = await issueAccountToken(user.id, "email_verification");
+  await getMailer().send(verificationEmail(user, token));
+}
+
+export async function sendPasswordResetEmail(user: User): Promise<void> {
+  const token = await issueAccountToken(user.id, "password_reset");
+  await getMailer().send(passwordResetEmail(user, token));
+}
+
+/**
+ * Replaces the password with a random one, signs the user out everywhere and
+ * emails them a reset link. Returns whether the email went out; if it didn't,
+ * the user can still ask for another link themselves.
+ */
+export async function forcePasswordReset(user: User): Promise<boolean> {
+  await storage.updateUserPassword(user.id, await hashPassword(randomBytes(32).toString("base64url")));
+  await storage.revokeUserRefreshTokens(user.id);
+  await storage.incrementTokenVersion(user.id);
+  try {
+    await sendPasswordResetEmail(user);
+    return true;
+  } catch (error) {
+    console.error("Password reset email error:", error);
+    return false;
+  }
+}
+
+export function sendSuspended(res: Response) {
+  return res.status(403).json({ message: "This account has been suspended", suspended: true });
+}
+
 export async function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
   
@@ -62,39 +186,115 @@ export async function authMiddleware(req: AuthRequest, res: Response, next: Next
   }
 
   const token = authHeader.substring(7);
+  if (token.startsWith(API_KEY_PREFIX)) {
+    return authenticateApiKey(token, req, res, next);
+  }
+
   const decoded = verifyToken(token);
 
   if (!decoded) {
     return res.status(401).json({ message: "Invalid or expired token" });
   }
 
-  req.user = {
-    id: decoded.id,
-    email: decoded.email,
-    role: decoded.role as "ADMIN" | "CLIENT",
-    name: "",
-    avatarUrl: null,
-    aiGenerationsUsed: 0,
-    aiGenerationsLimit: 3,
-    planType: "free",
-    subscriptionStatus: "free",
-    stripeCustomerId: null,
-    stripeSubscriptionId: null,
-    subscriptionEndDate: null,
-    createdAt: new Date(),
+  // Load the user on every request so deletions, role changes and
+  // "log out everywhere" take effect immediately rather than at token expiry.
+  let user: User | undefined;
+  try {
+    user = await storage.getUser(decoded.id);
+  } catch (error) {
+    console.error("Auth user lookup error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+
+  if (!user || user.tokenVersion !== decoded.tv) {
+    return res.status(401).json({ message: "Invalid or expired token" });
+  }
+  if (user.suspendedAt) {
+    return sendSuspended(res);
+  }
+
+  req.user = stripPassword(user);
+
+  next();
+}
+
+async function authenticateApiKey(key: string, req: AuthRequest, res: Response, next: NextFunction) {
+  let apiKey: ApiKey | undefined;
+  let user: User | undefined;
+  try {
+    apiKey = await storage.getApiKeyByHash(hashToken(key));
+    if (apiKey && !apiKey.revokedAt && (!apiKey.expiresAt || apiKey.expiresAt.getTime() > Date.now())) {
+      user = await storage.getUser(apiKey.userId);
+    }
+  } catch (error) {
+    console.error("Auth API key lookup error:", error);
+    return res.status(500).json({ message: "Internal server error" });
+  }
+
+  if (!apiKey || !user) {
+    return res.status(401).json({ message: "Invalid, revoked or expired API key" });
+  }
+  if (user.suspendedAt) {
+    return sendSuspended(res);
+  }
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > API_KEY_TOUCH_INTERVAL_MS) {
+    storage.touchApiKey(apiKey.id).catch((error) => {
+      console.error("API key touch error:", error);
+    });
+  }
+
+  req.user = stripPassword(user);
+  req.apiKey = { id: apiKey.id, scopes: apiKey.scopes };
+
+  next();
+}
+
+/**
+ * Declares the scope a route needs from an API key. Requests made with a
+ * user session have every scope.
+ */
+export function requireScope(scope: ApiKeyScope) {
+  return (req: AuthRequest, res: Response, next: NextFunction) => {
+    if (req.apiKey && !req.apiKey.scopes.includes(scope)) {
+      return res.status(403).json({
+        message: `This API key is missing the "${scope}" scope`,
+        requiredScope: scope,
+      });
+    }
+    next();
   };
+}
 
+// For routes that manage the account itself (sessions, API keys, admin
+// tools), which API keys can never reach regardless of scope.
+export function sessionOnlyMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
+  if (req.apiKey) {
+    return res.status(403).json({ message: "This endpoint can't be used with an API key" });
+  }
   next();
 }
 
 export function adminMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
-  if (req.user?.role !== "ADMIN") {
+  if (req.user?.role !== "ADMIN" || req.apiKey) {
     return res.status(403).json({ message: "Admin access required" });
   }
   next();
 }
 
+// Only enforced when REQUIRE_EMAIL_VERIFICATION=true, so existing accounts
+// aren't locked out of AI features until the operator opts in.
+export function verifiedEmailMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
+  if (process.env.REQUIRE_EMAIL_VERIFICATION === "true" && !req.user?.emailVerified) {
+    return res.status(403).json({
+      message: "Please verify your email address to use AI features.",
+      requiresEmailVerification: true,
+    });
+  }
+  next();
+}
+
 export function stripPassword(user: any): UserSafe {
-  const { password, ...userSafe } = user;
+  const { password, tokenVersion, ...userSafe } = user;
   return userSafe as UserSafe;
 }
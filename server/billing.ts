@@ -0,0 +1,188 @@
+import { storage } from "./storage";
+import { recordAudit, diffRecords } from "./audit";
+import type { AuthRequest } from "./auth";
+import type { BillingEvent } from "./webhook-signature";
+import type { Workspace } from "@shared/schema";
+
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+const CREDIT_RESET_BATCH_SIZE = 1000;
+// How long after its period ends a subscription may go without a renewal
+// before it is treated as unpaid, in case a webhook was lost.
+const RENEWAL_LEEWAY_MS = 24 * 60 * 60 * 1000;
+
+type PlanType = "free" | "pro" | "enterprise";
+type SubscriptionStatus = "active" | "past_due" | "cancelled";
+
+// Stripe subscription statuses we act on. Incomplete and paused
+// subscriptions are left alone until an invoice settles them.
+const SUBSCRIPTION_STATUSES: Record<string, SubscriptionStatus> = {
+  active: "active",
+  trialing: "active",
+  past_due: "past_due",
+  unpaid: "past_due",
+  canceled: "cancelled",
+};
+
+// Maps Stripe price ids to plans so invoices can move workspaces between tiers.
+const PRICE_PLANS: Record<string, PlanType> = Object.fromEntries(
+  [
+    [process.env.STRIPE_PRICE_PRO, "pro"],
+    [process.env.STRIPE_PRICE_ENTERPRISE, "enterprise"],
+  ].filter(([priceId]) => priceId) as [string, PlanType][]
+);
+
+// The plan of the first line or item whose price is mapped to one.
+function planFromPrices(items: Record<string, any>[] = []): PlanType | undefined {
+  for (const item of items) {
+    const plan = PRICE_PLANS[item.price?.id];
+    if (plan) return plan;
+  }
+  return undefined;
+}
+
+function periodEndFromInvoice(invoice: Record<string, any>): Date | null {
+  const periodEnd = invoice.lines?.data?.[0]?.period?.end ?? invoice.period_end;
+  return periodEnd ? new Date(periodEnd * 1000) : null;
+}
+
+// Plans are billed per workspace. Checkout sessions carry the workspace in
+// metadata; older sessions only name the user, whose personal workspace
+// is billed.
+async function findWorkspaceForObject(object: Record<string, any>) {
+  const workspaceId = object.metadata?.workspaceId;
+  if (workspaceId) {
+    const workspace = await storage.getWorkspace(workspaceId);
+    if (workspace) return workspace;
+  }
+  const userId = object.client_reference_id || object.metadata?.userId;
+  if (userId) {
+    const user = await storage.getUser(userId);
+    if (user) return storage.ensurePersonalWorkspace(user);
+  }
+  if (object.customer) {
+    return storage.getWorkspaceByStripeCustomerId(object.customer);
+  }
+  return undefined;
+}
+
+export async function handleBillingEvent(event: BillingEvent): Promise<void> {
+  const object = event.data.object;
+  const workspace = await findWorkspaceForObject(object);
+
+  if (!workspace) {
+    console.warn(`Billing webhook ${event.type} (${event.id}): no matching workspace`);
+    return;
+  }
+
+  switch (event.type) {
+    case "checkout.session.completed": {
+      const requestedPlan = object.metadata?.planType;
+      const planType: PlanType = requestedPlan === "enterprise" ? "enterprise" : "pro";
+      await storage.updateStripeDetails(workspace.id, {
+        stripeCustomerId: object.customer || workspace.stripeCustomerId,
+        stripeSubscriptionId: object.subscription || workspace.stripeSubscriptionId,
+      });
+      await storage.updateSubscription(workspace.id, planType, "active");
+      break;
+    }
+    case "invoice.paid": {
+      const planType = planFromPrices(object.lines?.data) || (workspace.planType === "free" ? "pro" : workspace.planType);
+      await storage.updateStripeDetails(workspace.id, {
+        stripeSubscriptionId: object.subscription || workspace.stripeSubscriptionId,
+        subscriptionEndDate: periodEndFromInvoice(object),
+      });
+      await storage.updateSubscription(workspace.id, planType, "active");
+      break;
+    }
+    case "invoice.payment_failed": {
+      await storage.updateSubscription(workspace.id, workspace.planType, "past_due");
+      break;
+    }
+    case "customer.subscription.updated": {
+      const status = SUBSCRIPTION_STATUSES[object.status];
+      if (!status) return;
+      const paidPlan = planFromPrices(object.items?.data) || (workspace.planType === "free" ? "pro" : workspace.planType);
+      await storage.updateStripeDetails(workspace.id, {
+        stripeSubscriptionId: object.id || workspace.stripeSubscriptionId,
+        subscriptionEndDate: object.current_period_end
+          ? new Date(object.current_period_end * 1000)
+          : workspace.subscriptionEndDate,
+      });
+      await storage.updateSubscription(workspace.id, status === "cancelled" ? "free" : paidPlan, status);
+      break;
+    }
+    case "customer.subscription.deleted": {
+      await storage.updateStripeDetails(workspace.id, {
+        stripeSubscriptionId: null,
+        subscriptionEndDate: object.ended_at ? new Date(object.ended_at * 1000) : new Date(),
+      });
+      await storage.updateSubscription(workspace.id, "free", "cancelled");
+      break;
+    }
+    default:
+      return;
+  }
+
+  await auditSubscriptionChange(null, workspace, { source: "stripe", eventId: event.id, eventType: event.type });
+}
+
+/**
+ * Audits what changed in a workspace's subscription since `before`, if
+ * anything. `req` is the admin who changed it by hand, or null for Stripe
+ * and the scheduler.
+ */
+export async function auditSubscriptionChange(
+  req: AuthRequest | null,
+  before: Workspace,
+  metadata: Record<string, unknown>
+): Promise<void> {
+  const updated = await storage.getWorkspace(before.id);
+  const changes = diffRecords(before, updated, [
+    "planType",
+    "subscriptionStatus",
+    "pastDueSince",
+    "stripeCustomerId",
+    "stripeSubscriptionId",
+    "subscriptionEndDate",
+  ]);
+  if (Object.keys(changes).length > 0) {
+    await recordAudit(req, {
+      action: "subscription.update",
+      targetType: "workspace",
+      targetId: before.id,
+      changes,
+      metadata,
+    });
+  }
+}
+
+/**
+ * Runs once an hour: resets the AI credits of workspaces whose billing period
+ * has ended, and marks paid subscriptions past_due when their period ended
+ * without a renewal. Credits are also reset on demand when a workspace uses
+ * or checks them, so a late run never leaves anyone without their allowance.
+ */
+export function startBillingScheduler(): void {
+  const run = async () => {
+    try {
+      const now = new Date();
+      const due = await storage.getWorkspacesDueForCreditReset(now, CREDIT_RESET_BATCH_SIZE);
+      for (const workspaceId of due) {
+        await storage.rollOverAiCredits(workspaceId, now);
+      }
+
+      const lapsed = await storage.getLapsedSubscriptions(new Date(now.getTime() - RENEWAL_LEEWAY_MS));
+      for (const workspace of lapsed) {
+        await storage.updateSubscription(workspace.id, workspace.planType, "past_due");
+        await auditSubscriptionChange(null, workspace, { source: "scheduler", reason: "renewal not received" });
+      }
+      if (lapsed.length > 0) {
+        console.log(`Marked ${lapsed.length} lapsed subscription(s) past_due`);
+      }
+    } catch (error) {
+      console.error("Billing scheduler error:", error);
+    }
+  };
+  setInterval(run, SCHEDULER_INTERVAL_MS).unref();
+  run();
+}
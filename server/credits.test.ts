@@ -0,0 +1,82 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { AiCreditEntry } from "@shared/schema";
+
+vi.mock("./storage", () => ({
+  storage: {
+    reserveAiCredit: vi.fn(),
+    commitAiCredit: vi.fn(),
+    refundAiCredit: vi.fn(),
+  },
+}));
+
+import { storage } from "./storage";
+import { refundCredit, refundReason, reserveCredit, spendCredit } from "./credits";
+
+const debit = { userId: "user-1", operation: "website_generate" as const };
+
+describe("reserveCredit", () => {
+  beforeEach(() => {
+    vi.mocked(storage.reserveAiCredit).mockReset();
+  });
+
+  it("returns the reservation id", async () => {
+    vi.mocked(storage.reserveAiCredit).mockResolvedValue({ entry: { id: "credit-1" } as AiCreditEntry });
+
+    await expect(reserveCredit("ws-1", debit)).resolves.toEqual({ creditId: "credit-1" });
+    expect(storage.reserveAiCredit).toHaveBeenCalledWith({ workspaceId: "ws-1", ...debit });
+  });
+
+  it("asks for payment when the subscription is blocked", async () => {
+    vi.mocked(storage.reserveAiCredit).mockResolvedValue({ reason: "blocked" });
+
+    await expect(reserveCredit("ws-1", debit)).resolves.toMatchObject({ status: 402, requiresPayment: true });
+  });
+
+  it("asks for an upgrade when the allowance is used up", async () => {
+    vi.mocked(storage.reserveAiCredit).mockResolvedValue({ reason: "exhausted" });
+
+    await expect(reserveCredit("ws-1", debit)).resolves.toMatchObject({ status: 403, requiresUpgrade: true });
+  });
+});
+
+describe("spendCredit", () => {
+  beforeEach(() => {
+    vi.mocked(storage.commitAiCredit).mockReset().mockResolvedValue(true);
+    vi.mocked(storage.refundAiCredit).mockReset().mockResolvedValue(undefined);
+  });
+
+  it("commits the credit against the generated project", async () => {
+    const result = await spendCredit("credit-1", async () => ({ id: "project-1" }), (project) => project.id);
+
+    expect(result).toEqual({ id: "project-1" });
+    expect(storage.commitAiCredit).toHaveBeenCalledWith("credit-1", "project-1");
+    expect(storage.refundAiCredit).not.toHaveBeenCalled();
+  });
+
+  it("refunds the credit and rethrows when the generation fails", async () => {
+    const failure = new Error("model unavailable");
+
+    await expect(spendCredit("credit-1", () => Promise.reject(failure))).rejects.toBe(failure);
+    expect(storage.refundAiCredit).toHaveBeenCalledWith("credit-1", "Refunded: model unavailable");
+    expect(storage.commitAiCredit).not.toHaveBeenCalled();
+  });
+});
+
+describe("refundCredit", () => {
+  it("leaves a failed refund to the sweeper instead of throwing", async () => {
+    vi.mocked(storage.refundAiCredit).mockRejectedValue(new Error("connection lost"));
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(refundCredit("credit-1", "Refunded: test")).resolves.toBeUndefined();
+    expect(consoleError).toHaveBeenCalled();
+    consoleError.mockRestore();
+  });
+});
+
+describe("refundReason", () => {
+  it("uses the error message, capped to fit the ledger description", () => {
+    expect(refundReason(new Error("timeout"))).toBe("Refunded: timeout");
+    expect(refundReason("not an error")).toBe("Refunded: Generation failed");
+    expect(refundReason(new Error("x".repeat(1000)))).toHaveLength(500);
+  });
+});
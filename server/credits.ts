@@ -0,0 +1,102 @@
+import type { Response } from "express";
+import { storage } from "./storage";
+import type { CreditOperation } from "@shared/schema";
+
+// A reservation still open after this long belongs to a request that died
+// without settling it, and is refunded. Reservations held by queued or
+// running jobs are left to the job, however long it waits or retries.
+const STALE_RESERVATION_MS = 6 * 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 15 * 60 * 1000;
+
+export interface CreditDenied {
+  status: number;
+  message: string;
+  requiresPayment?: boolean;
+  requiresUpgrade?: boolean;
+}
+
+/**
+ * Reserves a credit from the workspace for one generation. Returns the
+ * reservation id to commit or refund once the generation is over.
+ */
+export async function reserveCredit(
+  workspaceId: string,
+  debit: { userId: string; operation: CreditOperation; projectId?: string | null; description?: string }
+): Promise<{ creditId: string } | CreditDenied> {
+  const reserved = await storage.reserveAiCredit({ workspaceId, ...debit });
+  if ("entry" in reserved) {
+    return { creditId: reserved.entry.id };
+  }
+  if (reserved.reason === "blocked") {
+    return {
+      status: 402,
+      message: "Your subscription requires payment. Please upgrade to continue using AI features.",
+      requiresPayment: true,
+    };
+  }
+  return {
+    status: 403,
+    message: "AI generation limit reached. Upgrade your plan for more generations.",
+    requiresUpgrade: true,
+  };
+}
+
+export function sendCreditDenied(res: Response, denied: CreditDenied) {
+  const { status, ...body } = denied;
+  return res.status(status).json(body);
+}
+
+export async function commitCredit(creditId: string, projectId: string | null = null): Promise<void> {
+  await storage.commitAiCredit(creditId, projectId);
+}
+
+// Never throws: a refund that fails here is retried by the sweeper.
+export async function refundCredit(creditId: string, reason: string): Promise<void> {
+  try {
+    await storage.refundAiCredit(creditId, reason);
+  } catch (error) {
+    console.error(`Credit refund error (${creditId}):`, error);
+  }
+}
+
+export function refundReason(error: unknown): string {
+  const message = error instanceof Error ? error.message : "Generation failed";
+  return `Refunded: ${message}`.slice(0, 500);
+}
+
+/**
+ * Runs a generation against a reserved credit: commits it if `run` succeeds
+ * and refunds it if `run` throws.
+ */
+export async function spendCredit<T>(
+  creditId: string,
+  run: () => Promise<T>,
+  projectIdOf: (result: T) => string | null = () => null
+): Promise<T> {
+  let result: T;
+  try {
+    result = await run();
+  } catch (error) {
+    await refundCredit(creditId, refundReason(error));
+    throw error;
+  }
+  await commitCredit(creditId, projectIdOf(result));
+  return result;
+}
+
+export function startCreditSweeper(): void {
+  const sweep = async () => {
+    try {
+      const stale = await storage.getStaleAiCreditReservations(new Date(Date.now() - STALE_RESERVATION_MS));
+      for (const reservation of stale) {
+        await refundCredit(reservation.id, "Refunded: the generation never finished");
+      }
+      if (stale.length > 0) {
+        console.log(`Refunded ${stale.length} stale credit reservation(s)`);
+      }
+    } catch (error) {
+      console.error("Credit sweep error:", error);
+    }
+  };
+  setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+}
@@ -0,0 +1,18 @@
+// Cursors are opaque to clients: the sort value and id of the last row on a
+// page, for keyset pagination that stays stable while rows are added.
+export function encodeCursor(values: string[]): string {
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+// Returns null for cursors this server didn't issue.
+export function decodeCursor(cursor: string, length: number): string[] | null {
+  try {
+    const values: unknown = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (!Array.isArray(values) || values.length !== length || !values.every((value) => typeof value === "string")) {
+      return null;
+    }
+    return values;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,96 @@
+import type { MailMessage } from "./mailer";
+import type { User } from "@shared/schema";
+
+type Recipient = Pick<User, "email" | "name">;
+
+interface EmailContent {
+  subject: string;
+  heading: string;
+  intro: string;
+  actionLabel: string;
+  actionUrl: string;
+  outro: string;
+}
+
+function frontendUrl(path: string): string {
+  return `${(process.env.FRONTEND_URL || "http://localhost:5173").replace(/\/$/, "")}${path}`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Every account email shares one layout: a greeting, a sentence of context,
+// a single call-to-action link and a closing note.
+function renderEmail(to: Recipient, content: EmailContent): MailMessage {
+  const greeting = `Hi ${to.name || "there"},`;
+
+  const text = [
+    greeting,
+    "",
+    content.intro,
+    "",
+    `${content.actionLabel}: ${content.actionUrl}`,
+    "",
+    content.outro,
+    "",
+    "- The SiteForgeAI team",
+  ].join("\n");
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<body style="margin:0;padding:32px 16px;background:#f8fafc;font-family:Inter,system-ui,sans-serif;color:#1a1a2e">
+  <div style="max-width:520px;margin:0 auto;background:#fff;border-radius:16px;padding:32px">
+    <h1 style="font-size:22px;margin:0 0 16px">${escapeHtml(content.heading)}</h1>
+    <p style="line-height:1.6">${escapeHtml(greeting)}</p>
+    <p style="line-height:1.6">${escapeHtml(content.intro)}</p>
+    <p style="margin:28px 0"><a href="${escapeHtml(content.actionUrl)}" style="background:#3B82F6;color:#fff;padding:12px 24px;border-radius:8px;text-decoration:none;font-weight:600">${escapeHtml(content.actionLabel)}</a></p>
+    <p style="line-height:1.6;font-size:14px;opacity:0.8">${escapeHtml(content.outro)}</p>
+  </div>
+</body>
+</html>`;
+
+  return { to: to.email, subject: content.subject, text, html };
+}
+
+export function verificationEmail(to: Recipient, token: string): MailMessage {
+  return renderEmail(to, {
+    subject: "Verify your SiteForgeAI email address",
+    heading: "Confirm your email",
+    intro: "Thanks for signing up for SiteForgeAI. Please confirm this is your email address.",
+    actionLabel: "Verify email",
+    actionUrl: frontendUrl(`/verify-email?token=${encodeURIComponent(token)}`),
+    outro: "This link expires in 24 hours. If you didn't create an account, you can ignore this email.",
+  });
+}
+
+export function passwordResetEmail(to: Recipient, token: string): MailMessage {
+  return renderEmail(to, {
+    subject: "Reset your SiteForgeAI password",
+    heading: "Reset your password",
+    intro: "We received a request to reset the password for your SiteForgeAI account.",
+    actionLabel: "Choose a new password",
+    actionUrl: frontendUrl(`/reset-password?token=${encodeURIComponent(token)}`),
+    outro: "This link expires in 1 hour and can only be used once. If you didn't ask to reset your password, you can ignore this email.",
+  });
+}
+
+export function workspaceInvitationEmail(
+  email: string,
+  workspaceName: string,
+  inviterName: string,
+  token: string
+): MailMessage {
+  return renderEmail({ email, name: "" }, {
+    subject: `${inviterName} invited you to ${workspaceName} on SiteForgeAI`,
+    heading: `Join ${workspaceName}`,
+    intro: `${inviterName} invited you to collaborate on websites in the "${workspaceName}" workspace on SiteForgeAI.`,
+    actionLabel: "Accept invitation",
+    actionUrl: frontendUrl(`/invitations/accept?token=${encodeURIComponent(token)}`),
+    outro: "This invitation expires in 7 days. Sign up or log in with this email address to accept it.",
+  });
+}
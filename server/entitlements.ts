@@ -0,0 +1,88 @@
+import type { Response } from "express";
+import { storage } from "./storage";
+import { formatBytes } from "./media";
+import { getPlan, isSubscriptionBlocked } from "./plans";
+import type { Workspace } from "@shared/schema";
+
+export interface EntitlementDenied {
+  status: number;
+  message: string;
+  requiresUpgrade: true;
+}
+
+export type EntitlementCheck =
+  | { feature: "project" }
+  | { feature: "page"; projectId: string }
+  | { feature: "upload"; size: number }
+  | { feature: "customDomain" }
+  | { feature: "premiumTemplate" }
+  | { feature: "model"; model: string };
+
+function denied(status: number, message: string): EntitlementDenied {
+  return { status, message, requiresUpgrade: true };
+}
+
+/**
+ * Checks one use of a plan-limited feature against the workspace's plan.
+ * Returns null when it is allowed. Counts are checked before the new item is
+ * created, so `project` and `page` ask whether one more fits.
+ */
+export async function checkEntitlement(workspace: Workspace, check: EntitlementCheck): Promise<EntitlementDenied | null> {
+  const plan = getPlan(workspace.planType);
+
+  switch (check.feature) {
+    case "project": {
+      if (plan.maxProjects === null) return null;
+      const projectCount = await storage.countWorkspaceProjects(workspace.id);
+      return projectCount < plan.maxProjects
+        ? null
+        : denied(403, `The ${plan.name} plan allows ${plan.maxProjects} projects per workspace`);
+    }
+    case "page": {
+      if (plan.maxPagesPerProject === null) return null;
+      const pageCount = await storage.countPages(check.projectId);
+      return pageCount < plan.maxPagesPerProject
+        ? null
+        : denied(403, `The ${plan.name} plan allows ${plan.maxPagesPerProject} pages per project`);
+    }
+    case "upload": {
+      if (check.size > plan.maxFileSize) {
+        return denied(413, `Files on your plan can be at most ${formatBytes(plan.maxFileSize)}`);
+      }
+      const storageUsed = await storage.getStorageUsed(workspace.id);
+      return storageUsed + check.size <= plan.maxStorage
+        ? null
+        : denied(413, `Storage quota of ${formatBytes(plan.maxStorage)} exceeded`);
+    }
+    case "customDomain":
+      return plan.customDomains ? null : denied(403, "Custom domains require a Pro or Enterprise plan");
+    case "premiumTemplate":
+      return plan.premiumTemplates && !isSubscriptionBlocked(workspace)
+        ? null
+        : denied(403, "This template requires a Pro or Enterprise plan");
+    case "model":
+      return !plan.models || plan.models.includes(check.model)
+        ? null
+        : denied(403, `The model "${check.model}" is not available on the ${plan.name} plan`);
+  }
+}
+
+/**
+ * The model an AI request runs on: the requested one if the plan allows it,
+ * otherwise the plan's default. Undefined means the provider's default.
+ */
+export async function resolveModel(
+  workspace: Workspace,
+  requested: string | undefined
+): Promise<{ model: string | undefined } | EntitlementDenied> {
+  if (!requested) {
+    return { model: getPlan(workspace.planType).models?.[0] };
+  }
+  const denial = await checkEntitlement(workspace, { feature: "model", model: requested });
+  return denial || { model: requested };
+}
+
+export function sendEntitlementDenied(res: Response, denial: EntitlementDenied) {
+  const { status, ...body } = denial;
+  return res.status(status).json(body);
+}
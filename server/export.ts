@@ -0,0 +1,240 @@
+import path from "path";
+import type { Archiver } from "archiver";
+import { parse, serialize, defaultTreeAdapter, html as parse5Html, type DefaultTreeAdapterMap } from "parse5";
+import { mediaStorage } from "./media-storage";
+import type { Media, Project } from "@shared/schema";
+
+type Node = DefaultTreeAdapterMap["node"];
+type Element = DefaultTreeAdapterMap["element"];
+type ParentNode = DefaultTreeAdapterMap["parentNode"];
+
+export type HostingTarget = "netlify" | "vercel" | "nginx";
+
+export const HOSTING_TARGETS: HostingTarget[] = ["netlify", "vercel", "nginx"];
+
+export interface ExportPage {
+  // URL path of the page: "/" for the home page, "/about" for the rest.
+  path: string;
+  title: string;
+  html: string;
+}
+
+export interface ExportOptions {
+  baseUrl: string;
+  minify: boolean;
+  hosting: HostingTarget[];
+}
+
+function isElement(node: Node): node is Element {
+  return "tagName" in node;
+}
+
+function pageFile(pagePath: string): string {
+  const trimmed = pagePath.replace(/^\/+|\/+$/g, "");
+  return trimmed ? `${trimmed}/index.html` : "index.html";
+}
+
+function relativeRoot(file: string): string {
+  const depth = file.split("/").length - 1;
+  return "../".repeat(depth);
+}
+
+// Link from one exported page to another, relative so the bundle works from
+// any directory or host.
+export function relativePageHref(fromPath: string, toPath: string): string {
+  const target = toPath.replace(/^\/+|\/+$/g, "");
+  return relativeRoot(pageFile(fromPath)) + (target ? `${target}/` : "") || "./";
+}
+
+// Moves every <style> block out of the document into the shared stylesheet
+// and links it from <head> instead.
+function extractStyles(html: string, stylesheetHref: string): { html: string; styles: string[] } {
+  const document = parse(html);
+  const styles: string[] = [];
+  let head: Element | undefined;
+
+  const walk = (node: ParentNode) => {
+    for (const child of [...node.childNodes]) {
+      if (!isElement(child)) continue;
+      if (child.tagName === "head") head = child;
+      if (child.tagName === "style" && child.namespaceURI === parse5Html.NS.HTML) {
+        styles.push(child.childNodes.map((text) => ("value" in text ? text.value : "")).join("").trim());
+        defaultTreeAdapter.detachNode(child);
+        continue;
+      }
+      walk(child);
+    }
+  };
+  walk(document);
+
+  if (head) {
+    defaultTreeAdapter.appendChild(head, defaultTreeAdapter.createElement("link", parse5Html.NS.HTML, [
+      { name: "rel", value: "stylesheet" },
+      { name: "href", value: stylesheetHref },
+    ]));
+  }
+
+  return { html: serialize(document), styles: styles.filter(Boolean) };
+}
+
+export function minifyHtml(html: string): string {
+  const preserved: string[] = [];
+  return html
+    .replace(/<(pre|textarea)\b[\s\S]*?<\/\1>/gi, (block) => {
+      preserved.push(block);
+      return `\u0000${preserved.length - 1}\u0000`;
+    })
+    .replace(/<!--(?!\[if)[\s\S]*?-->/g, "")
+    .replace(/\s+/g, " ")
+    .replace(/\u0000(\d+)\u0000/g, (_match, index: string) => preserved[Number(index)])
+    .trim();
+}
+
+export function minifyCss(css: string): string {
+  return css
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .replace(/\s+/g, " ")
+    .replace(/\s*([{};,>])\s*/g, "$1")
+    .replace(/;}/g, "}")
+    .trim();
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function buildSitemap(baseUrl: string, pages: ExportPage[], lastModified: Date): string {
+  const urls = pages.map((page) => `  <url>
+    <loc>${escapeXml(baseUrl + (page.path === "/" ? "/" : page.path))}</loc>
+    <lastmod>${lastModified.toISOString().slice(0, 10)}</lastmod>
+  </url>`).join("\n");
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+${urls}
+</urlset>
+`;
+}
+
+function buildReadme(project: Project, pages: ExportPage[], options: ExportOptions): string {
+  const hostingNotes: Record<HostingTarget, string> = {
+    netlify: "- **Netlify**: drag this folder into https://app.netlify.com/drop. `_redirects` is already included.",
+    vercel: "- **Vercel**: run `npx vercel` in this folder. `vercel.json` is already included.",
+    nginx: "- **nginx**: copy the files to your web root and include `nginx.conf` in your server block.",
+  };
+
+  return `# ${project.name}
+
+Static website exported from SiteForgeAI.
+
+## Contents
+
+${pages.map((page) => `- \`${pageFile(page.path)}\` - ${page.title}`).join("\n")}
+- \`styles.css\` - Site stylesheet
+- \`assets/\` - Images and other media used by the site
+- \`robots.txt\` and \`sitemap.xml\` - Search engine files for ${options.baseUrl}
+
+## Deploying
+
+The site is plain HTML and CSS, so any static host works. Upload the contents of this folder as-is.
+
+${options.hosting.length > 0 ? options.hosting.map((target) => hostingNotes[target]).join("\n") : "- Add `?hosting=netlify,vercel,nginx` to the export URL to include hosting config files."}
+`;
+}
+
+const HOSTING_FILES: Record<HostingTarget, { name: string; content: string }> = {
+  netlify: {
+    name: "_redirects",
+    content: "/index.html    /    301\n/*    /index.html    404\n",
+  },
+  vercel: {
+    name: "vercel.json",
+    content: JSON.stringify({
+      cleanUrls: true,
+      trailingSlash: false,
+      headers: [
+        {
+          source: "/assets/(.*)",
+          headers: [{ key: "Cache-Control", value: "public, max-age=31536000, immutable" }],
+        },
+      ],
+    }, null, 2) + "\n",
+  },
+  nginx: {
+    name: "nginx.conf",
+    content: `# Include inside a server { } block and point root at this folder.
+root /var/www/site;
+index index.html;
+
+location / {
+    try_files $uri $uri/ $uri.html =404;
+}
+
+location /assets/ {
+    expires 1y;
+    add_header Cache-Control "public, immutable";
+}
+
+gzip on;
+gzip_types text/css application/xml text/plain image/svg+xml;
+`,
+  },
+};
+
+/**
+ * Writes a project as a deployable static site into `archive`. Media from the
+ * user's library that the pages reference is copied into `assets/` and the
+ * URLs are rewritten to point at the copies.
+ */
+export async function writeSiteExport(
+  archive: Archiver,
+  project: Project,
+  pages: ExportPage[],
+  mediaItems: Media[],
+  options: ExportOptions
+): Promise<void> {
+  const stylesheet: string[] = [];
+  const renderedPages: { file: string; html: string }[] = [];
+
+  for (const page of pages) {
+    const file = pageFile(page.path);
+    const { html, styles } = extractStyles(page.html, `${relativeRoot(file)}styles.css`);
+    for (const style of styles) {
+      if (!stylesheet.includes(style)) stylesheet.push(style);
+    }
+    renderedPages.push({ file, html });
+  }
+
+  let css = stylesheet.join("\n\n");
+
+  const usedMedia = mediaItems.filter((item) =>
+    item.storageKey && (css.includes(item.url) || renderedPages.some((page) => page.html.includes(item.url)))
+  );
+
+  for (const item of usedMedia) {
+    const assetName = path.posix.basename(item.storageKey!);
+    try {
+      archive.append(await mediaStorage.get(item.storageKey!), { name: `assets/${assetName}` });
+    } catch (error) {
+      console.error(`Export: failed to read media ${item.id}:`, error);
+      continue;
+    }
+    css = css.split(item.url).join(`assets/${assetName}`);
+    for (const page of renderedPages) {
+      page.html = page.html.split(item.url).join(`${relativeRoot(page.file)}assets/${assetName}`);
+    }
+  }
+
+  for (const page of renderedPages) {
+    archive.append(options.minify ? minifyHtml(page.html) : page.html, { name: page.file });
+  }
+  archive.append(options.minify ? minifyCss(css) : css, { name: "styles.css" });
+  archive.append(`User-agent: *\nAllow: /\n\nSitemap: ${options.baseUrl}/sitemap.xml\n`, { name: "robots.txt" });
+  archive.append(buildSitemap(options.baseUrl, pages, project.updatedAt), { name: "sitemap.xml" });
+  archive.append(buildReadme(project, pages, options), { name: "README.md" });
+
+  for (const target of options.hosting) {
+    const { name, content } = HOSTING_FILES[target];
+    archive.append(content, { name });
+  }
+}
@@ -0,0 +1,184 @@
+import { createHmac, timingSafeEqual } from "crypto";
+import { parse, type DefaultTreeAdapterMap } from "parse5";
+import { getMailer } from "./mailer";
+import { toCsv } from "./csv";
+import type { FormSubmission, Project } from "@shared/schema";
+
+type Node = DefaultTreeAdapterMap["node"];
+type Element = DefaultTreeAdapterMap["element"];
+type ParentNode = DefaultTreeAdapterMap["parentNode"];
+
+const FORM_SECRET = process.env.FORM_SECRET || process.env.SESSION_SECRET || "siteforgeai-form-secret";
+
+export const HONEYPOT_FIELD = "_gotcha";
+export const TIMESTAMP_FIELD = "_ts";
+export const FORM_NAME_FIELD = "_form";
+export const PAGE_FIELD = "_page";
+
+// Submissions sent sooner than this after the page was rendered are treated
+// as bots filling in the form automatically.
+export const MIN_FILL_TIME_MS = 3000;
+
+// Per-IP limit on stored submissions for one project.
+export const FORM_RATE_LIMIT = 5;
+export const FORM_RATE_LIMIT_WINDOW_MS = 10 * 60 * 1000;
+
+const MAX_FIELDS = 50;
+const MAX_FIELD_LENGTH = 5000;
+
+export function formActionPath(projectId: string): string {
+  return `/api/forms/${projectId}/submit`;
+}
+
+function isElement(node: Node): node is Element {
+  return "tagName" in node;
+}
+
+function collectForms(node: ParentNode, found: Element[]): void {
+  for (const child of node.childNodes) {
+    if (!isElement(child)) continue;
+    if (child.tagName === "form") {
+      found.push(child);
+    }
+    collectForms(child, found);
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function sign(value: string): string {
+  return createHmac("sha256", FORM_SECRET).update(value).digest("hex").slice(0, 32);
+}
+
+export function signFormTimestamp(projectId: string, renderedAt = Date.now()): string {
+  return `${renderedAt}.${sign(`${projectId}.${renderedAt}`)}`;
+}
+
+/**
+ * Returns when the form was rendered, or null if the timestamp is missing or
+ * wasn't issued by us for this project.
+ */
+export function verifyFormTimestamp(projectId: string, token: unknown): number | null {
+  if (typeof token !== "string") return null;
+  const [timestamp, signature] = token.split(".");
+  if (!timestamp || !signature || !/^\d+$/.test(timestamp)) return null;
+
+  const expected = Buffer.from(sign(`${projectId}.${timestamp}`));
+  const received = Buffer.from(signature);
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null;
+  return Number(timestamp);
+}
+
+export function hashSubmitterIp(projectId: string, ip: string): string {
+  return createHmac("sha256", FORM_SECRET).update(`${projectId}|${ip}`).digest("hex").slice(0, 32);
+}
+
+/**
+ * Points every form in the document at the project's submission endpoint and
+ * adds the hidden spam-protection fields. `action` is the endpoint URL as
+ * seen from wherever the page is served.
+ */
+export function wireSiteForms(html: string, projectId: string, action: string, pagePath: string): string {
+  const document = parse(html, { sourceCodeLocationInfo: true });
+  const forms: Element[] = [];
+  collectForms(document, forms);
+  if (forms.length === 0) return html;
+
+  const timestamp = signFormTimestamp(projectId);
+  const edits = forms
+    .filter((form) => form.sourceCodeLocation?.startTag)
+    .map((form, index) => {
+      const attrs = form.attrs.filter((attr) => !["action", "method", "enctype", "target"].includes(attr.name));
+      const name = form.attrs.find((attr) => attr.name === "name" || attr.name === "id")?.value || `form-${index + 1}`;
+      const startTag = `<form${attrs.map((attr) => ` ${attr.name}="${escapeHtml(attr.value)}"`).join("")} action="${escapeHtml(action)}" method="post">`;
+      const hidden = [
+        `<input type="hidden" name="${FORM_NAME_FIELD}" value="${escapeHtml(name)}">`,
+        `<input type="hidden" name="${PAGE_FIELD}" value="${escapeHtml(pagePath)}">`,
+        `<input type="hidden" name="${TIMESTAMP_FIELD}" value="${timestamp}">`,
+        `<div aria-hidden="true" style="position:absolute;left:-10000px;width:1px;height:1px;overflow:hidden"><label>Leave this field empty<input type="text" name="${HONEYPOT_FIELD}" tabindex="-1" autocomplete="off"></label></div>`,
+      ].join("");
+      const location = form.sourceCodeLocation!.startTag!;
+      return { start: location.startOffset, end: location.endOffset, text: startTag + hidden };
+    });
+
+  let result = html;
+  for (const { start, end, text } of edits.sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, start) + text + result.slice(end);
+  }
+  return result;
+}
+
+/**
+ * Keeps the visitor's fields and drops our hidden ones. Values are trimmed
+ * and capped so a single submission can't grow without bound.
+ */
+export function extractSubmissionFields(body: Record<string, unknown>): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const [key, value] of Object.entries(body)) {
+    if (key.startsWith("_") || Object.keys(fields).length >= MAX_FIELDS) continue;
+    const text = Array.isArray(value) ? value.map(String).join(", ") : String(value ?? "");
+    fields[key.slice(0, 100)] = text.trim().slice(0, MAX_FIELD_LENGTH);
+  }
+  return fields;
+}
+
+export function submissionsToCsv(submissions: FormSubmission[]): string {
+  const fieldNames = Array.from(new Set(submissions.flatMap((submission) => Object.keys(submission.data))));
+  const header = ["submitted_at", "form", "page", "read", ...fieldNames];
+  const rows = submissions.map((submission) => [
+    submission.createdAt.toISOString(),
+    submission.formName,
+    submission.pagePath || "",
+    submission.isRead ? "yes" : "no",
+    ...fieldNames.map((field) => submission.data[field] ?? ""),
+  ]);
+  return toCsv([header, ...rows]);
+}
+
+export async function notifyFormSubmission(project: Project, submission: FormSubmission): Promise<void> {
+  if (!project.formNotificationEmail) return;
+
+  const lines = Object.entries(submission.data).map(([field, value]) => `${field}: ${value}`);
+  const replyTo = Object.entries(submission.data).find(([field, value]) =>
+    /e-?mail/i.test(field) && /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)
+  )?.[1];
+
+  await getMailer().send({
+    to: project.formNotificationEmail,
+    subject: `New ${submission.formName} submission on ${project.name}`,
+    text: `${lines.join("\n")}\n\nPage: ${submission.pagePath || "/"}\nReceived: ${submission.createdAt.toISOString()}\n`,
+    replyTo,
+  });
+}
+
+export function renderFormThankYouPage(backUrl: string | null): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>Thank you</title>
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: Inter, system-ui, sans-serif; background: #f8fafc; color: #1a1a2e; text-align: center; }
+  main { padding: 48px 32px; max-width: 480px; background: #fff; border-radius: 24px; box-shadow: 0 25px 50px -12px rgba(0, 0, 0, 0.15); }
+  h1 { font-size: 32px; margin: 0 0 8px; }
+  p { opacity: 0.8; line-height: 1.6; }
+  a { color: #3B82F6; font-weight: 600; }
+</style>
+</head>
+<body>
+<main>
+  <h1>Thank you!</h1>
+  <p>Your message has been sent. We'll be in touch soon.</p>
+  ${backUrl ? `<p><a href="${escapeHtml(backUrl)}">Back to the site</a></p>` : ""}
+</main>
+</body>
+</html>`;
+}
@@ -1,9 +1,17 @@
 import express, { type Request, Response, NextFunction } from "express";
 import cors from "cors";
 import { registerRoutes } from "./routes.js";
+import { startJobWorker } from "./jobs.js";
+import { startRateLimitPruning } from "./rate-limit.js";
+import { startCreditSweeper } from "./credits.js";
+import { startBillingScheduler } from "./billing.js";
+import { storage } from "./storage.js";
 import { createServer } from "http";
 
 const app = express();
+// Render terminates TLS in a proxy in front of the app; trust its
+// X-Forwarded-* headers so req.ip is the client's address.
+app.set("trust proxy", 1);
 const httpServer = createServer(app);
 
 declare module "http" {
@@ -49,6 +57,14 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+// Response fields that are never written to the log: session tokens and
+// API keys, which are only ever shown once.
+const REDACTED_LOG_FIELDS = new Set(["token", "refreshToken", "accessToken", "key"]);
+
+function redactLogField(key: string, value: unknown) {
+  return REDACTED_LOG_FIELDS.has(key) && value ? "[redacted]" : value;
+}
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -65,7 +81,7 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse, redactLogField)}`;
       }
 
       log(logLine);
@@ -80,8 +96,21 @@ app.get("/api/health", (_req, res) => {
 });
 
 (async () => {
+  const backfilled = await storage.backfillWorkspaces();
+  if (backfilled > 0) {
+    log(`created personal workspaces for ${backfilled} user(s)`, "workspaces");
+  }
+
+  const openingBalances = await storage.backfillAiCreditLedger();
+  if (openingBalances > 0) {
+    log(`moved usage of ${openingBalances} workspace(s) into the ledger`, "credits");
+  }
+
   await registerRoutes(httpServer, app);
 
+  const rateLimitStore = startRateLimitPruning();
+  log(`using the ${rateLimitStore.name} store`, "rate-limit");
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -100,4 +129,12 @@ app.get("/api/health", (_req, res) => {
       log(`serving on port ${port}`);
     },
   );
+
+  startCreditSweeper();
+  startBillingScheduler();
+
+  if (process.env.JOB_WORKER !== "false") {
+    startJobWorker();
+    log("job worker started", "jobs");
+  }
 })();
@@ -0,0 +1,156 @@
+import { storage } from "./storage";
+import { generateWebsite, type WebsiteGenerationRequest } from "./openai-website";
+import { saveGeneratedWebsite, regenerateProjectSection, generateProjectPage, type PageGenerationInput } from "./websites";
+import { commitCredit, refundCredit, refundReason } from "./credits";
+import { isTransientAiError } from "./ai-provider";
+import type { Job } from "@shared/schema";
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || "1000", 10);
+const WORKER_CONCURRENCY = parseInt(process.env.JOB_WORKER_CONCURRENCY || "2", 10);
+const PER_USER_CONCURRENCY = parseInt(process.env.JOB_PER_USER_CONCURRENCY || "1", 10);
+const HEARTBEAT_INTERVAL_MS = 30_000;
+// A running job whose lock hasn't been refreshed for this long belongs to a
+// worker that crashed or was restarted, and is put back on the queue.
+const STALE_LOCK_MS = 4 * HEARTBEAT_INTERVAL_MS;
+const RETRY_BASE_DELAY_MS = 15_000;
+
+export interface RegenerateJobPayload {
+  projectId: string;
+  sectionName: string;
+  instructions: string;
+  model?: string;
+}
+
+export interface PageJobPayload extends PageGenerationInput {
+  projectId: string;
+}
+
+export interface WebsiteJobPayload extends WebsiteGenerationRequest {
+  // Missing on jobs queued before workspaces; those go to the user's
+  // personal workspace.
+  workspaceId?: string;
+}
+
+async function runJob(job: Job): Promise<string | null> {
+  switch (job.type) {
+    case "website_generate": {
+      const { workspaceId, ...input } = job.payload as unknown as WebsiteJobPayload;
+      const user = await storage.getUser(job.userId);
+      if (!user) {
+        throw new Error("User not found");
+      }
+      const targetWorkspaceId = workspaceId || (await storage.ensurePersonalWorkspace(user)).id;
+      const generated = await generateWebsite(input, { userId: job.userId, workspaceId: targetWorkspaceId });
+      const project = await saveGeneratedWebsite(job.userId, targetWorkspaceId, input, generated);
+      return project.id;
+    }
+    case "website_regenerate": {
+      const { projectId, sectionName, instructions, model } = job.payload as unknown as RegenerateJobPayload;
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        throw new Error("Project not found");
+      }
+      await regenerateProjectSection(job.userId, project, sectionName, instructions, model);
+      return project.id;
+    }
+    case "page_generate": {
+      const { projectId, ...input } = job.payload as unknown as PageJobPayload;
+      const project = await storage.getProject(projectId);
+      if (!project) {
+        throw new Error("Project not found");
+      }
+      await generateProjectPage(job.userId, project, input);
+      return project.id;
+    }
+    default:
+      throw new Error(`Unknown job type "${job.type}"`);
+  }
+}
+
+async function processJob(job: Job): Promise<void> {
+  // Jobs queued before the credit ledger have no reservation and run
+  // uncharged.
+  const { creditId } = job;
+
+  if (job.attempts > job.maxAttempts) {
+    await storage.failJob(job.id, job.error || "Job exceeded its retry limit", null);
+    if (creditId) await refundCredit(creditId, refundReason(new Error(job.error || "Job exceeded its retry limit")));
+    return;
+  }
+
+  const heartbeat = setInterval(() => {
+    storage.touchJob(job.id).catch((error) => console.error("Job heartbeat error:", error));
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const projectId = await runJob(job);
+    await storage.completeJob(job.id, projectId);
+    if (creditId) await commitCredit(creditId, projectId);
+    console.log(`Job ${job.id} (${job.type}) succeeded`);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Job failed";
+    // Only provider and network hiccups are retried; anything else fails the
+    // job at once rather than after minutes of retries.
+    const retryAt = isTransientAiError(error) && job.attempts < job.maxAttempts
+      ? new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (job.attempts - 1))
+      : null;
+    await storage.failJob(job.id, message, retryAt);
+    // Retries keep the reservation; only the final failure gives it back.
+    if (creditId && !retryAt) await refundCredit(creditId, refundReason(error));
+    console.error(`Job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, error);
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/**
+ * Queues a job that spends the reserved credit `creditId` when it succeeds.
+ * The credit is refunded if the job can't be queued.
+ */
+export async function enqueueJob(
+  userId: string,
+  type: Job["type"],
+  payload: Record<string, unknown>,
+  creditId: string
+): Promise<Job> {
+  try {
+    return await storage.createJob({ userId, type, payload, creditId });
+  } catch (error) {
+    await refundCredit(creditId, refundReason(error));
+    throw error;
+  }
+}
+
+export function startJobWorker(): void {
+  let activeJobs = 0;
+  let polling = false;
+
+  const poll = async () => {
+    if (polling) return;
+    polling = true;
+    try {
+      const requeued = await storage.requeueStaleJobs(new Date(Date.now() - STALE_LOCK_MS));
+      if (requeued > 0) {
+        console.log(`Requeued ${requeued} stale job(s)`);
+      }
+
+      while (activeJobs < WORKER_CONCURRENCY) {
+        const job = await storage.claimNextJob(PER_USER_CONCURRENCY);
+        if (!job) break;
+
+        activeJobs++;
+        processJob(job)
+          .catch((error) => console.error("Job processing error:", error))
+          .finally(() => {
+            activeJobs--;
+          });
+      }
+    } catch (error) {
+      console.error("Job worker poll error:", error);
+    } finally {
+      polling = false;
+    }
+  };
+
+  setInterval(poll, POLL_INTERVAL_MS).unref();
+}
@@ -0,0 +1,99 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import nodemailer, { type Transporter } from "nodemailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  replyTo?: string;
+}
+
+export interface Mailer {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const MAIL_FROM = process.env.MAIL_FROM || "SiteForgeAI <no-reply@siteforgeai.app>";
+
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, " ");
+}
+
+/**
+ * Writes each message to MAIL_OUTBOX_DIR as a .eml file instead of sending
+ * it. The default, so local development and CI never send real email.
+ */
+export class LocalFileMailer implements Mailer {
+  readonly name = "local";
+
+  constructor(private readonly directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const headers = [
+      `From: ${MAIL_FROM}`,
+      `To: ${headerValue(message.to)}`,
+      message.replyTo ? `Reply-To: ${headerValue(message.replyTo)}` : null,
+      `Subject: ${headerValue(message.subject)}`,
+      `Date: ${new Date().toUTCString()}`,
+      "Content-Type: text/plain; charset=utf-8",
+    ].filter(Boolean);
+
+    await fs.mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID()}.eml`;
+    await fs.writeFile(path.join(this.directory, fileName), `${headers.join("\r\n")}\r\n\r\n${message.text}\r\n`);
+  }
+}
+
+// Prints each message to stdout; handy when running the server locally.
+export class ConsoleMailer implements Mailer {
+  readonly name = "console";
+
+  async send(message: MailMessage): Promise<void> {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+export class SmtpMailer implements Mailer {
+  readonly name = "smtp";
+  private readonly transporter: Transporter;
+
+  constructor(url: string) {
+    this.transporter = nodemailer.createTransport(url);
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: MAIL_FROM, ...message });
+  }
+}
+
+export function createMailer(): Mailer {
+  const transport = (process.env.MAIL_TRANSPORT || "local").toLowerCase();
+
+  switch (transport) {
+    case "smtp": {
+      const url = process.env.SMTP_URL;
+      if (!url) {
+        throw new Error("SMTP_URL must be set when MAIL_TRANSPORT=smtp");
+      }
+      return new SmtpMailer(url);
+    }
+    case "console":
+      return new ConsoleMailer();
+    case "local":
+      return new LocalFileMailer(path.resolve(process.env.MAIL_OUTBOX_DIR || "mail-outbox"));
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+  }
+}
+
+let mailer: Mailer | undefined;
+
+export function getMailer(): Mailer {
+  if (!mailer) {
+    mailer = createMailer();
+  }
+  return mailer;
+}
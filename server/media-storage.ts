@@ -0,0 +1,107 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from "@aws-sdk/client-s3";
+
+export interface MediaStorageAdapter {
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  delete(key: string): Promise<void>;
+  getUrl(key: string): string;
+}
+
+export const LOCAL_MEDIA_DIR = path.resolve(process.env.MEDIA_UPLOAD_DIR || "uploads");
+export const LOCAL_MEDIA_ROUTE = "/uploads";
+
+const PUBLIC_URL = (process.env.PUBLIC_URL || "").replace(/\/$/, "");
+
+export class LocalDiskAdapter implements MediaStorageAdapter {
+  constructor(private readonly root: string = LOCAL_MEDIA_DIR) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error("Invalid media key");
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return fs.readFile(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { force: true });
+  }
+
+  getUrl(key: string): string {
+    return `${PUBLIC_URL}${LOCAL_MEDIA_ROUTE}/${key}`;
+  }
+}
+
+export class S3Adapter implements MediaStorageAdapter {
+  private readonly client: S3Client;
+
+  constructor(
+    private readonly bucket: string,
+    private readonly publicUrl: string,
+    endpoint?: string
+  ) {
+    this.client = new S3Client({
+      region: process.env.S3_REGION || "auto",
+      endpoint,
+      forcePathStyle: Boolean(endpoint),
+      credentials: {
+        accessKeyId: process.env.S3_ACCESS_KEY_ID || "",
+        secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+      },
+    });
+  }
+
+  async put(key: string, data: Buffer, contentType: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: data,
+      ContentType: contentType,
+      CacheControl: "public, max-age=31536000, immutable",
+    }));
+  }
+
+  async get(key: string): Promise<Buffer> {
+    const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    if (!response.Body) {
+      throw new Error(`Media object ${key} has no body`);
+    }
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  getUrl(key: string): string {
+    return `${this.publicUrl}/${key}`;
+  }
+}
+
+function createMediaStorage(): MediaStorageAdapter {
+  if (process.env.MEDIA_STORAGE === "s3") {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+      throw new Error("S3_BUCKET must be set when MEDIA_STORAGE=s3");
+    }
+    const endpoint = process.env.S3_ENDPOINT;
+    const publicUrl = process.env.S3_PUBLIC_URL
+      || (endpoint ? `${endpoint.replace(/\/$/, "")}/${bucket}` : `https://${bucket}.s3.amazonaws.com`);
+    return new S3Adapter(bucket, publicUrl.replace(/\/$/, ""), endpoint);
+  }
+  return new LocalDiskAdapter();
+}
+
+export const mediaStorage = createMediaStorage();
@@ -0,0 +1,62 @@
+import { randomUUID } from "crypto";
+
+const MB = 1024 * 1024;
+
+const EXTENSIONS: Record<string, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+  "image/svg+xml": "svg",
+  "image/x-icon": "ico",
+  "video/mp4": "mp4",
+  "video/webm": "webm",
+  "application/pdf": "pdf",
+  "font/woff": "woff",
+  "font/woff2": "woff2",
+};
+
+function startsWith(data: Buffer, bytes: number[], offset = 0): boolean {
+  return bytes.every((byte, i) => data[offset + i] === byte);
+}
+
+/**
+ * Detects the file type from its leading bytes rather than trusting the
+ * client-supplied Content-Type. Returns null for anything we don't accept.
+ */
+export function sniffMimeType(data: Buffer): string | null {
+  if (startsWith(data, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png";
+  if (data.subarray(0, 6).toString("ascii") === "GIF87a" || data.subarray(0, 6).toString("ascii") === "GIF89a") return "image/gif";
+  if (data.subarray(0, 4).toString("ascii") === "RIFF" && data.subarray(8, 12).toString("ascii") === "WEBP") return "image/webp";
+  if (startsWith(data, [0x00, 0x00, 0x01, 0x00])) return "image/x-icon";
+  if (data.subarray(4, 8).toString("ascii") === "ftyp") return "video/mp4";
+  if (startsWith(data, [0x1a, 0x45, 0xdf, 0xa3])) return "video/webm";
+  if (data.subarray(0, 5).toString("ascii") === "%PDF-") return "application/pdf";
+  if (data.subarray(0, 4).toString("ascii") === "wOFF") return "font/woff";
+  if (data.subarray(0, 4).toString("ascii") === "wOF2") return "font/woff2";
+
+  const head = data.subarray(0, 1024).toString("utf8").trimStart().toLowerCase();
+  if ((head.startsWith("<svg") || (head.startsWith("<?xml") && head.includes("<svg"))) && !/<script|\son\w+\s*=/.test(data.toString("utf8").toLowerCase())) {
+    return "image/svg+xml";
+  }
+
+  return null;
+}
+
+export function buildMediaKey(prefix: string, mimeType: string): string {
+  return `${prefix}/${randomUUID()}.${EXTENSIONS[mimeType] || "bin"}`;
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes === 0) {
+    return "0 MB";
+  }
+  if (bytes < MB) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  if (bytes < 1024 * MB) {
+    return `${(bytes / MB).toFixed(1)} MB`;
+  }
+  return `${(bytes / (1024 * MB)).toFixed(2)} GB`;
+}
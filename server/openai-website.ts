@@ -1,8 +1,8 @@
-import OpenAI from "openai";
+import { getAiProvider, type AiCompletionRequest } from "./ai-provider";
+import { meteredCompletion, type AiUsageContext } from "./ai-usage";
+import { isTruncatedHtml, isTruncatedFragment } from "./sanitize";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+const TRUNCATED_MESSAGE = "The AI response was cut off before the website was complete. Please try again.";
 
 export interface WebsiteGenerationRequest {
   businessName: string;
@@ -10,6 +10,10 @@ export interface WebsiteGenerationRequest {
   description: string;
   primaryColor?: string;
   sections?: string[];
+  templateId?: string;
+  // Style direction from the template the site is generated from.
+  promptHints?: string;
+  model?: string;
 }
 
 export interface GeneratedWebsite {
@@ -17,6 +21,33 @@ export interface GeneratedWebsite {
   css: string;
 }
 
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  // When set, the completion is streamed and called with the running size of
+  // the response received so far.
+  onProgress?: (receivedBytes: number) => void;
+  onParsing?: () => void;
+}
+
+export interface PageGenerationRequest {
+  businessName: string;
+  businessType: string;
+  title: string;
+  instructions: string;
+  styleContext: string;
+  model?: string;
+}
+
+export interface GeneratedPage {
+  html: string;
+  metaDescription: string | null;
+}
+
+export interface GeneratedContent {
+  result: string;
+  tokensUsed: number;
+}
+
 const WEBSITE_SYSTEM_PROMPT = `You are an elite web designer at a top creative agency. Generate STUNNING, award-winning websites that look like they cost $10,000+ to build.
 
 DESIGN PRINCIPLES:
@@ -61,6 +92,10 @@ COLOR USAGE:
 - White cards on gray backgrounds
 - Gradient buttons (primary color gradient)
 
+SECTION MARKERS:
+- Every top-level block (navigation, hero, each content section, footer) must be a direct child of <body>
+- Give each block a unique, lowercase data-section attribute naming it, e.g. <nav data-section="navigation">, <section data-section="hero">, <footer data-section="footer">
+
 OUTPUT FORMAT:
 Return a JSON object with exactly two keys:
 - "html": Complete HTML5 document with <!DOCTYPE html>, proper <head> with all CDN links, and full <body>
@@ -70,7 +105,11 @@ CRITICAL: Embed ALL CSS inside a <style> tag in the <head>. The "css" field can
 
 Do NOT include markdown. Return ONLY the JSON object.`;
 
-export async function generateWebsite(request: WebsiteGenerationRequest): Promise<GeneratedWebsite> {
+export async function generateWebsite(
+  request: WebsiteGenerationRequest,
+  usage: AiUsageContext,
+  options: GenerationOptions = {}
+): Promise<GeneratedWebsite> {
   const sections = request.sections || ["hero", "features", "about", "testimonials", "pricing", "contact", "footer"];
   const primaryColor = request.primaryColor || "#3B82F6";
 
@@ -83,7 +122,7 @@ BRAND COLOR: ${primaryColor}
 
 SECTIONS TO INCLUDE:
 ${sections.map((s, i) => `${i + 1}. ${s.charAt(0).toUpperCase() + s.slice(1)}`).join("\n")}
-
+${request.promptHints ? `\nTEMPLATE STYLE DIRECTION:\n${request.promptHints}\n` : ""}
 DESIGN REQUIREMENTS:
 1. Hero: Full viewport with gradient overlay on a relevant Unsplash image, bold headline (48-72px), compelling subtext, 2 CTA buttons (primary filled, secondary outline), floating elements or subtle patterns
 2. Stats: Animated counter-style numbers for key metrics (e.g., "500+ Clients", "10 Years Experience")
@@ -101,17 +140,42 @@ IMAGERY: Use actual Unsplash URLs like:
 
 Make this website look like it was built by a $200/hr design agency. Premium, polished, ready to launch.`;
 
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
-    messages: [
-      { role: "system", content: WEBSITE_SYSTEM_PROMPT },
-      { role: "user", content: userPrompt },
-    ],
-    max_tokens: 16000,
+  const completionRequest: AiCompletionRequest = {
+    operation: "website",
+    system: WEBSITE_SYSTEM_PROMPT,
+    prompt: userPrompt,
+    maxTokens: 16000,
     temperature: 0.8,
-  });
+    model: request.model,
+    context: {
+      businessName: request.businessName,
+      businessType: request.businessType,
+      description: request.description,
+      primaryColor,
+      sections: sections.join(","),
+    },
+  };
 
-  const content = response.choices[0]?.message?.content || "";
+  const provider = getAiProvider();
+  const summary = `Website: ${request.businessName} - ${request.businessType}`;
+  let content: string;
+  if (options.onProgress) {
+    let receivedBytes = 0;
+    const onProgress = options.onProgress;
+    ({ content } = await meteredCompletion(usage, completionRequest, summary, () =>
+      provider.stream(completionRequest, {
+        signal: options.signal,
+        onDelta: (delta) => {
+          receivedBytes += Buffer.byteLength(delta);
+          onProgress(receivedBytes);
+        },
+      })
+    ));
+  } else {
+    ({ content } = await meteredCompletion(usage, completionRequest, summary, () => provider.complete(completionRequest)));
+  }
+
+  options.onParsing?.();
   
   try {
     const cleanedContent = content
@@ -120,11 +184,17 @@ Make this website look like it was built by a $200/hr design agency. Premium, po
       .trim();
     
     const parsed = JSON.parse(cleanedContent);
+    if (isTruncatedHtml(parsed.html || "")) {
+      throw new Error(TRUNCATED_MESSAGE);
+    }
     return {
-      html: parsed.html || "",
+      html: parsed.html,
       css: parsed.css || "",
     };
   } catch (error) {
+    if (error instanceof Error && error.message === TRUNCATED_MESSAGE) {
+      throw error;
+    }
     console.error("Failed to parse AI response");
     
     // Try to extract HTML directly if JSON parsing fails
@@ -138,44 +208,62 @@ Make this website look like it was built by a $200/hr design agency. Premium, po
       };
     }
     
+    if (/<!DOCTYPE html>/i.test(content)) {
+      throw new Error(TRUNCATED_MESSAGE);
+    }
     throw new Error("Failed to generate website. Please try again.");
   }
 }
 
+const SECTION_SYSTEM_PROMPT = `You are an elite web designer editing one section of an existing, award-winning website.
+
+You receive the HTML of a single section and the site's existing CSS for reference. Rewrite ONLY that section.
+
+RULES:
+- Return exactly one top-level element, keeping the same tag and the same data-section attribute
+- Reuse the site's existing classes, CSS variables, fonts and colors so the section blends in
+- If the section needs new styles, put them in a <style> element as the first child of the section and scope every selector to [data-section="<name>"]
+- Keep it fully responsive and accessible
+- Use Unsplash URLs for images and Font Awesome 6 for icons
+
+OUTPUT FORMAT:
+Return a JSON object with a single key "html" containing the section's HTML.
+
+Do NOT include markdown. Return ONLY the JSON object.`;
+
 export async function regenerateSection(
-  currentHtml: string,
-  currentCss: string,
+  sectionHtml: string,
   sectionName: string,
-  instructions: string
+  instructions: string,
+  styleContext: string,
+  usage: AiUsageContext,
+  model?: string
 ): Promise<GeneratedWebsite> {
-  const userPrompt = `I have an existing website. Please modify the "${sectionName}" section according to these instructions:
+  const userPrompt = `Modify the "${sectionName}" section according to these instructions:
 
 INSTRUCTIONS: ${instructions}
 
-CURRENT WEBSITE HTML:
-${currentHtml}
-
-REQUIREMENTS:
-1. Keep the overall design consistent
-2. Only modify the requested section
-3. Maintain the same quality and styling
-4. Keep all other sections exactly the same
-5. Preserve all functionality and responsiveness
-
-Return the COMPLETE updated HTML with embedded CSS as a JSON object with "html" and "css" keys.
-The HTML should be the full document, not just the section.`;
-
-  const response = await openai.chat.completions.create({
-    model: "gpt-4o",
-    messages: [
-      { role: "system", content: WEBSITE_SYSTEM_PROMPT },
-      { role: "user", content: userPrompt },
-    ],
-    max_tokens: 16000,
-    temperature: 0.6,
-  });
+CURRENT SECTION HTML:
+${sectionHtml}
 
-  const content = response.choices[0]?.message?.content || "";
+EXISTING SITE CSS (for reference, do not repeat it):
+${styleContext || "(none)"}`;
+
+  const completionRequest: AiCompletionRequest = {
+    operation: "section",
+    system: SECTION_SYSTEM_PROMPT,
+    prompt: userPrompt,
+    maxTokens: 6000,
+    temperature: 0.6,
+    model,
+    context: { sectionHtml, sectionName, instructions },
+  };
+  const { content } = await meteredCompletion(
+    usage,
+    completionRequest,
+    `Section: ${sectionName} - ${instructions}`,
+    () => getAiProvider().complete(completionRequest)
+  );
   
   try {
     const cleanedContent = content
@@ -184,18 +272,21 @@ The HTML should be the full document, not just the section.`;
       .trim();
     
     const parsed = JSON.parse(cleanedContent);
+    if (!parsed.html || isTruncatedFragment(parsed.html)) {
+      throw new Error("Missing or incomplete html");
+    }
     return {
-      html: parsed.html || currentHtml,
-      css: parsed.css || currentCss,
+      html: parsed.html,
+      css: "",
     };
   } catch (error) {
     console.error("Failed to parse regeneration response");
     
-    // Try to extract HTML directly
-    const htmlMatch = content.match(/<!DOCTYPE html>[\s\S]*<\/html>/i);
-    if (htmlMatch) {
+    // Try to extract the section element directly
+    const sectionMatch = content.match(/<(section|header|footer|nav|main|article|aside|div)\b[\s\S]*<\/\1>/i);
+    if (sectionMatch) {
       return {
-        html: htmlMatch[0],
+        html: sectionMatch[0],
         css: "",
       };
     }
@@ -203,3 +294,123 @@ The HTML should be the full document, not just the section.`;
     throw new Error("Failed to update website section. Please try again.");
   }
 }
+
+const PAGE_SYSTEM_PROMPT = `You are an elite web designer adding a new page to an existing, award-winning website.
+
+You receive the page's title, instructions for its content and the site's existing CSS. The site's <head>, navigation and footer are reused automatically; write ONLY the content sections that go between the navigation and the footer.
+
+RULES:
+- Return one or more top-level <section> elements, each with a unique, lowercase data-section attribute
+- Start with a compact page hero (not full viewport) containing the page title as the only <h1>
+- Reuse the site's existing classes, CSS variables, fonts and colors so the page looks like the rest of the site
+- If a section needs new styles, put them in a <style> element as the first child of that section and scope every selector to its [data-section="<name>"]
+- Keep it fully responsive and accessible
+- Use Unsplash URLs for images and Font Awesome 6 for icons
+
+OUTPUT FORMAT:
+Return a JSON object with exactly two keys:
+- "html": the content sections' HTML
+- "metaDescription": a meta description for the page (max 155 characters)
+
+Do NOT include markdown. Return ONLY the JSON object.`;
+
+function isTruncatedSections(html: string): boolean {
+  const trimmed = html.trim();
+  return !/^</.test(trimmed) || !/<\/[a-z][a-z0-9-]*\s*>$/i.test(trimmed);
+}
+
+export async function generatePage(request: PageGenerationRequest, usage: AiUsageContext): Promise<GeneratedPage> {
+  const userPrompt = `Create the "${request.title}" page for:
+
+BUSINESS: ${request.businessName}
+TYPE: ${request.businessType}
+
+INSTRUCTIONS: ${request.instructions}
+
+EXISTING SITE CSS (for reference, do not repeat it):
+${request.styleContext || "(none)"}`;
+
+  const completionRequest: AiCompletionRequest = {
+    operation: "page",
+    system: PAGE_SYSTEM_PROMPT,
+    prompt: userPrompt,
+    maxTokens: 10000,
+    temperature: 0.7,
+    model: request.model,
+    context: {
+      businessName: request.businessName,
+      businessType: request.businessType,
+      title: request.title,
+      instructions: request.instructions,
+    },
+  };
+  const { content } = await meteredCompletion(
+    usage,
+    completionRequest,
+    `Page: ${request.businessName} - ${request.title}`,
+    () => getAiProvider().complete(completionRequest)
+  );
+
+  try {
+    const cleanedContent = content
+      .replace(/```json\n?/g, "")
+      .replace(/```\n?/g, "")
+      .trim();
+
+    const parsed = JSON.parse(cleanedContent);
+    if (!parsed.html || isTruncatedSections(parsed.html)) {
+      throw new Error("Missing or incomplete html");
+    }
+    return {
+      html: parsed.html,
+      metaDescription: typeof parsed.metaDescription === "string" ? parsed.metaDescription.slice(0, 155) : null,
+    };
+  } catch (error) {
+    console.error("Failed to parse page generation response");
+
+    // Try to extract the content sections directly
+    const sectionsMatch = content.match(/<section\b[\s\S]*<\/section>/i);
+    if (sectionsMatch) {
+      return {
+        html: sectionsMatch[0],
+        metaDescription: null,
+      };
+    }
+
+    throw new Error("Failed to generate page. Please try again.");
+  }
+}
+
+const CONTENT_SYSTEM_PROMPTS: Record<"content" | "design" | "seo", string> = {
+  content: `You are a senior conversion copywriter. Write clear, persuasive website copy with strong headlines, benefit-led body text and specific calls to action. Return plain text with short headed sections. Do NOT include markdown code fences.`,
+  design: `You are an elite web designer. Give concrete, actionable design direction: color palette with hex codes, font pairings, layout structure, spacing and interaction details. Return plain text as a numbered list. Do NOT include markdown code fences.`,
+  seo: `You are a technical SEO specialist. Produce a page title (max 60 characters), meta description (max 155 characters), target keywords, heading outline and on-page recommendations. Return plain text with labelled lines. Do NOT include markdown code fences.`,
+};
+
+export async function generateContent(
+  prompt: string,
+  type: "content" | "design" | "seo",
+  usage: AiUsageContext,
+  model?: string
+): Promise<GeneratedContent> {
+  const completionRequest: AiCompletionRequest = {
+    operation: type,
+    system: CONTENT_SYSTEM_PROMPTS[type],
+    prompt,
+    maxTokens: 2000,
+    temperature: 0.7,
+    model,
+  };
+  const completion = await meteredCompletion(usage, completionRequest, prompt, () =>
+    getAiProvider().complete(completionRequest)
+  );
+
+  if (!completion.content.trim()) {
+    throw new Error("AI provider returned an empty response");
+  }
+
+  return {
+    result: completion.content.trim(),
+    tokensUsed: completion.promptTokens + completion.completionTokens,
+  };
+}
@@ -0,0 +1,219 @@
+import { parse, type DefaultTreeAdapterMap } from "parse5";
+import { parseSections } from "./sections";
+import { renderSiteHtml, SLUG_PATTERN } from "./site";
+import type { Page, Project } from "@shared/schema";
+
+type Node = DefaultTreeAdapterMap["node"];
+type Element = DefaultTreeAdapterMap["element"];
+type ParentNode = DefaultTreeAdapterMap["parentNode"];
+
+export const SITE_NAV_ATTRIBUTE = "data-site-nav";
+
+// Slugs that would collide with /index.html or with files in a static export.
+const RESERVED_PAGE_SLUGS = new Set(["index", "assets"]);
+
+const CHROME_START = /^(nav|navigation|menu|header|topbar)(-\d+)?$/;
+const CHROME_END = /^(footer)(-\d+)?$/;
+
+export interface SiteLink {
+  path: string;
+  label: string;
+}
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+function isElement(node: Node): node is Element {
+  return "tagName" in node;
+}
+
+function getAttribute(element: Element, name: string): string | undefined {
+  return element.attrs.find((attr) => attr.name === name)?.value;
+}
+
+function findElement(node: ParentNode, matches: (element: Element) => boolean): Element | undefined {
+  for (const child of node.childNodes) {
+    if (!isElement(child)) continue;
+    if (matches(child)) return child;
+    const found = findElement(child, matches);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function applyEdits(html: string, edits: Edit[]): string {
+  let result = html;
+  for (const { start, end, text } of [...edits].sort((a, b) => b.start - a.start)) {
+    result = result.slice(0, start) + text + result.slice(end);
+  }
+  return result;
+}
+
+export function pagePath(slug: string | null): string {
+  return slug ? `/${slug}` : "/";
+}
+
+export function validatePageSlug(slug: string): string | null {
+  if (!SLUG_PATTERN.test(slug)) {
+    return "Slug may only contain lowercase letters, numbers and hyphens";
+  }
+  if (RESERVED_PAGE_SLUGS.has(slug)) {
+    return `"${slug}" is reserved and can't be used as a page slug`;
+  }
+  return null;
+}
+
+// The home page is always first; the remaining pages follow their position.
+export function buildSiteLinks(pages: Pick<Page, "slug" | "title">[]): SiteLink[] {
+  return [
+    { path: "/", label: "Home" },
+    ...pages.map((page) => ({ path: pagePath(page.slug), label: page.title })),
+  ];
+}
+
+/**
+ * Writes the site's page links into the document's navigation. The links go
+ * into the element marked with `data-site-nav`; documents without one get a
+ * marked list appended to their first <nav>, or a new <nav> at the top of
+ * the body.
+ */
+export function syncNavigation(
+  html: string,
+  links: SiteLink[],
+  currentPath: string,
+  hrefFor: (path: string) => string
+): string {
+  const document = parse(html, { sourceCodeLocationInfo: true });
+
+  const renderLinks = (asListItems: boolean) => links.map((link) => {
+    const current = link.path === currentPath ? ` aria-current="page"` : "";
+    const anchor = `<a href="${escapeHtml(hrefFor(link.path))}"${current}>${escapeHtml(link.label)}</a>`;
+    return asListItems ? `<li>${anchor}</li>` : anchor;
+  }).join("");
+
+  const marked = findElement(document, (element) => getAttribute(element, SITE_NAV_ATTRIBUTE) !== undefined);
+  const markedLocation = marked?.sourceCodeLocation;
+  if (marked && markedLocation?.startTag && markedLocation.endTag) {
+    const asListItems = marked.tagName === "ul" || marked.tagName === "ol";
+    return applyEdits(html, [{
+      start: markedLocation.startTag.endOffset,
+      end: markedLocation.endTag.startOffset,
+      text: renderLinks(asListItems),
+    }]);
+  }
+
+  const nav = findElement(document, (element) => element.tagName === "nav");
+  const navEnd = nav?.sourceCodeLocation?.endTag?.startOffset;
+  if (navEnd !== undefined) {
+    return applyEdits(html, [{
+      start: navEnd,
+      end: navEnd,
+      text: `<ul ${SITE_NAV_ATTRIBUTE}>${renderLinks(true)}</ul>`,
+    }]);
+  }
+
+  const body = findElement(document, (element) => element.tagName === "body");
+  const bodyStart = body?.sourceCodeLocation?.startTag?.endOffset;
+  if (bodyStart === undefined) return html;
+  return applyEdits(html, [{
+    start: bodyStart,
+    end: bodyStart,
+    text: `\n<nav ${SITE_NAV_ATTRIBUTE}>${renderLinks(false)}</nav>`,
+  }]);
+}
+
+export function applyPageMeta(html: string, meta: { title: string; description?: string | null }): string {
+  const document = parse(html, { sourceCodeLocationInfo: true });
+  const head = findElement(document, (element) => element.tagName === "head");
+  const headStart = head?.sourceCodeLocation?.startTag?.endOffset;
+  if (!head || headStart === undefined) return html;
+
+  const edits: Edit[] = [];
+  const title = findElement(head, (element) => element.tagName === "title");
+  const titleLocation = title?.sourceCodeLocation;
+  if (titleLocation?.startTag && titleLocation.endTag) {
+    edits.push({
+      start: titleLocation.startTag.endOffset,
+      end: titleLocation.endTag.startOffset,
+      text: escapeHtml(meta.title),
+    });
+  } else {
+    edits.push({ start: headStart, end: headStart, text: `<title>${escapeHtml(meta.title)}</title>` });
+  }
+
+  if (meta.description) {
+    const tag = `<meta name="description" content="${escapeHtml(meta.description)}">`;
+    const existing = findElement(head, (element) =>
+      element.tagName === "meta" && getAttribute(element, "name")?.toLowerCase() === "description"
+    );
+    if (existing?.sourceCodeLocation) {
+      edits.push({ start: existing.sourceCodeLocation.startOffset, end: existing.sourceCodeLocation.endOffset, text: tag });
+    } else {
+      const headEnd = head.sourceCodeLocation?.endTag?.startOffset ?? headStart;
+      edits.push({ start: headEnd, end: headEnd, text: `${tag}\n` });
+    }
+  }
+
+  return applyEdits(html, edits);
+}
+
+/**
+ * Builds a new page from the home page's document: the <head>, the leading
+ * navigation/header blocks and the footer are kept, and the content sections
+ * between them are replaced with `contentHtml`.
+ */
+export function buildPageDocument(homeHtml: string, contentHtml: string): string {
+  const sections = parseSections(homeHtml);
+  const isLeadingChrome = (section: { name: string; tag: string }) =>
+    section.tag === "nav" || section.tag === "header" || CHROME_START.test(section.name);
+  const isTrailingChrome = (section: { name: string; tag: string }) =>
+    section.tag === "footer" || CHROME_END.test(section.name);
+
+  const content = sections.filter((section) => !isLeadingChrome(section) && !isTrailingChrome(section));
+  if (content.length > 0) {
+    const start = content[0].start;
+    const end = content[content.length - 1].end;
+    return `${homeHtml.slice(0, start)}${contentHtml}${homeHtml.slice(end)}`;
+  }
+
+  const footer = sections.find(isTrailingChrome);
+  let offset = footer ? footer.start : homeHtml.search(/<\/body>/i);
+  if (offset === -1) offset = homeHtml.length;
+  return `${homeHtml.slice(0, offset)}${contentHtml}\n${homeHtml.slice(offset)}`;
+}
+
+/**
+ * Renders the home page (`page` undefined) or one of the project's pages as a
+ * complete document, with navigation linking every page. `hrefFor` turns a
+ * page path into a link for wherever the site is being served from.
+ */
+export function renderProjectPage(
+  project: Project,
+  pages: Page[],
+  page: Page | undefined,
+  hrefFor: (path: string) => string
+): string {
+  let html = renderSiteHtml(page ? page.html : project.generatedHtml || "", project.generatedCss);
+
+  if (pages.length > 0) {
+    html = syncNavigation(html, buildSiteLinks(pages), page ? pagePath(page.slug) : "/", hrefFor);
+  }
+  if (page) {
+    html = applyPageMeta(html, {
+      title: page.metaTitle || `${page.title} | ${project.name}`,
+      description: page.metaDescription,
+    });
+  }
+  return html;
+}
@@ -0,0 +1,135 @@
+import type { Workspace } from "@shared/schema";
+
+export type PlanType = Workspace["planType"];
+
+const MB = 1024 * 1024;
+
+export interface Plan {
+  id: PlanType;
+  name: string;
+  // AI credits per month; null for unlimited.
+  monthlyAiCredits: number | null;
+  // Limits below are null for unlimited.
+  maxProjects: number | null;
+  maxPagesPerProject: number | null;
+  maxFileSize: number;
+  maxStorage: number;
+  customDomains: boolean;
+  premiumTemplates: boolean;
+  // Models AI requests may ask for, the first being the plan's default; null
+  // allows any model and defaults to AI_MODEL.
+  models: string[] | null;
+}
+
+// PLAN_<PLAN>_MODELS restricts a plan to a comma-separated list of models,
+// e.g. PLAN_FREE_MODELS=gpt-4o-mini.
+function planModels(plan: PlanType): string[] | null {
+  const models = (process.env[`PLAN_${plan.toUpperCase()}_MODELS`] || "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter(Boolean);
+  return models.length > 0 ? models : null;
+}
+
+/**
+ * Everything a plan allows. The single source for plan limits: credits,
+ * project and page counts, uploads and features are all checked against it.
+ */
+export const PLAN_CATALOG: Record<PlanType, Plan> = {
+  free: {
+    id: "free",
+    name: "Free",
+    monthlyAiCredits: 3,
+    maxProjects: 3,
+    maxPagesPerProject: 5,
+    maxFileSize: 5 * MB,
+    maxStorage: 100 * MB,
+    customDomains: false,
+    premiumTemplates: false,
+    models: planModels("free"),
+  },
+  pro: {
+    id: "pro",
+    name: "Pro",
+    monthlyAiCredits: null,
+    maxProjects: 25,
+    maxPagesPerProject: 50,
+    maxFileSize: 25 * MB,
+    maxStorage: 5 * 1024 * MB,
+    customDomains: true,
+    premiumTemplates: true,
+    models: planModels("pro"),
+  },
+  enterprise: {
+    id: "enterprise",
+    name: "Enterprise",
+    monthlyAiCredits: null,
+    maxProjects: null,
+    maxPagesPerProject: null,
+    maxFileSize: 100 * MB,
+    maxStorage: 50 * 1024 * MB,
+    customDomains: true,
+    premiumTemplates: true,
+    models: planModels("enterprise"),
+  },
+};
+
+export function getPlan(planType: PlanType): Plan {
+  return PLAN_CATALOG[planType];
+}
+
+// The largest upload any plan accepts, for the upload middleware's limit.
+export const MAX_UPLOAD_SIZE = Math.max(...Object.values(PLAN_CATALOG).map((plan) => plan.maxFileSize));
+
+// How long a past_due subscription keeps working before it is blocked.
+export const PAST_DUE_GRACE_MS = parseInt(process.env.PAST_DUE_GRACE_DAYS || "7", 10) * 24 * 60 * 60 * 1000;
+
+// When a past_due subscription's grace period ends, or null if it isn't
+// past_due. Subscriptions that went past_due before the grace period existed
+// have no start and are already blocked.
+export function graceEndsAt(workspace: Pick<Workspace, "subscriptionStatus" | "pastDueSince">): Date | null {
+  if (workspace.subscriptionStatus !== "past_due") return null;
+  return new Date((workspace.pastDueSince?.getTime() ?? 0) + PAST_DUE_GRACE_MS);
+}
+
+/**
+ * Unpaid subscriptions lose AI access and premium features: cancelled ones
+ * at once, past_due ones when their grace period ends.
+ */
+export function isSubscriptionBlocked(
+  workspace: Pick<Workspace, "subscriptionStatus" | "pastDueSince">,
+  now: Date = new Date()
+): boolean {
+  if (workspace.subscriptionStatus === "cancelled") return true;
+  const graceEnd = graceEndsAt(workspace);
+  return graceEnd !== null && graceEnd <= now;
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const daysInMonth = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, daysInMonth));
+  return result;
+}
+
+/**
+ * The monthly billing period `now` falls in. Paid plans are anchored to the
+ * end of the period Stripe last billed; other workspaces to the day they were
+ * created. Days past the end of a shorter month fall on its last day.
+ */
+export function billingPeriod(
+  workspace: Pick<Workspace, "planType" | "subscriptionEndDate" | "createdAt">,
+  now: Date = new Date()
+): { start: Date; end: Date } {
+  const anchor = workspace.planType !== "free" && workspace.subscriptionEndDate
+    ? workspace.subscriptionEndDate
+    : workspace.createdAt;
+
+  let months = (now.getUTCFullYear() - anchor.getUTCFullYear()) * 12 + now.getUTCMonth() - anchor.getUTCMonth();
+  if (addMonths(anchor, months) > now) months--;
+  if (addMonths(anchor, months + 1) <= now) months++;
+  return { start: addMonths(anchor, months), end: addMonths(anchor, months + 1) };
+}
@@ -0,0 +1,112 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Project, Workspace, WorkspaceMember, WorkspaceRole } from "@shared/schema";
+
+vi.mock("./storage", () => ({
+  storage: {
+    getWorkspace: vi.fn(),
+    getWorkspaceMember: vi.fn(),
+    getProject: vi.fn(),
+  },
+}));
+
+import { storage } from "./storage";
+import { authorizeProject, authorizeWorkspace, roleAllows } from "./policy";
+
+const member = { id: "user-1", role: "CLIENT" as const };
+const admin = { id: "admin-1", role: "ADMIN" as const };
+const workspace = { id: "ws-1", name: "Team" } as Workspace;
+
+function withRole(role: WorkspaceRole | null) {
+  vi.mocked(storage.getWorkspaceMember).mockResolvedValue(
+    role ? ({ workspaceId: workspace.id, userId: member.id, role } as WorkspaceMember) : undefined
+  );
+}
+
+describe("roleAllows", () => {
+  it("lets owners manage, editors write and viewers only read", () => {
+    expect(roleAllows("owner", "manage")).toBe(true);
+    expect(roleAllows("editor", "write")).toBe(true);
+    expect(roleAllows("editor", "manage")).toBe(false);
+    expect(roleAllows("viewer", "read")).toBe(true);
+    expect(roleAllows("viewer", "write")).toBe(false);
+  });
+});
+
+describe("authorizeWorkspace", () => {
+  beforeEach(() => {
+    vi.mocked(storage.getWorkspace).mockReset().mockResolvedValue(workspace);
+    vi.mocked(storage.getWorkspaceMember).mockReset();
+  });
+
+  it("returns the workspace and role when the role allows the action", async () => {
+    withRole("editor");
+
+    await expect(authorizeWorkspace(member, workspace.id, "write")).resolves.toEqual({ workspace, role: "editor" });
+  });
+
+  it("denies actions beyond the member's role", async () => {
+    withRole("viewer");
+
+    await expect(authorizeWorkspace(member, workspace.id, "write")).resolves.toEqual({ status: 403, message: "Access denied" });
+  });
+
+  it("denies non-members", async () => {
+    withRole(null);
+
+    await expect(authorizeWorkspace(member, workspace.id, "read")).resolves.toMatchObject({ status: 403 });
+  });
+
+  it("lets platform admins in without a role", async () => {
+    withRole(null);
+
+    await expect(authorizeWorkspace(admin, workspace.id, "manage")).resolves.toEqual({ workspace, role: null });
+  });
+
+  it("reports missing workspaces", async () => {
+    vi.mocked(storage.getWorkspace).mockResolvedValue(undefined);
+
+    await expect(authorizeWorkspace(admin, "missing", "read")).resolves.toEqual({ status: 404, message: "Workspace not found" });
+  });
+});
+
+describe("authorizeProject", () => {
+  const project = { id: "project-1", userId: "owner-1", workspaceId: workspace.id } as Project;
+
+  beforeEach(() => {
+    vi.mocked(storage.getProject).mockReset().mockResolvedValue(project);
+    vi.mocked(storage.getWorkspaceMember).mockReset();
+  });
+
+  it("allows members whose role covers the action", async () => {
+    withRole("editor");
+
+    await expect(authorizeProject(member, project.id, "write")).resolves.toEqual({ project, asAdmin: false });
+  });
+
+  it("denies members whose role doesn't", async () => {
+    withRole("viewer");
+
+    await expect(authorizeProject(member, project.id, "write")).resolves.toMatchObject({ status: 403 });
+  });
+
+  it("flags access that only the platform admin role grants", async () => {
+    withRole(null);
+
+    await expect(authorizeProject(admin, project.id, "write")).resolves.toEqual({ project, asAdmin: true });
+  });
+
+  it("limits projects without a workspace to their creator", async () => {
+    const legacy = { ...project, workspaceId: null, userId: member.id };
+    vi.mocked(storage.getProject).mockResolvedValue(legacy);
+
+    await expect(authorizeProject(member, project.id, "manage")).resolves.toEqual({ project: legacy, asAdmin: false });
+    await expect(authorizeProject({ id: "user-2", role: "CLIENT" }, project.id, "read")).resolves.toMatchObject({ status: 403 });
+    expect(storage.getWorkspaceMember).not.toHaveBeenCalled();
+  });
+
+  it("reports missing projects", async () => {
+    vi.mocked(storage.getProject).mockResolvedValue(undefined);
+
+    await expect(authorizeProject(member, "missing", "read")).resolves.toEqual({ status: 404, message: "Project not found" });
+  });
+});
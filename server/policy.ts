@@ -0,0 +1,141 @@
+import { storage } from "./storage";
+import type { Job, Media, Project, UserSafe, Workspace, WorkspaceRole } from "@shared/schema";
+
+type Actor = Pick<UserSafe, "id" | "role">;
+
+export type WorkspaceAction = "read" | "write" | "manage";
+
+export interface Denied {
+  status: number;
+  message: string;
+}
+
+// What each member role may do in a workspace. Platform admins may do
+// everything everywhere.
+const ROLE_ACTIONS: Record<WorkspaceRole, WorkspaceAction[]> = {
+  owner: ["read", "write", "manage"],
+  editor: ["read", "write"],
+  viewer: ["read"],
+};
+
+export function roleAllows(role: WorkspaceRole, action: WorkspaceAction): boolean {
+  return ROLE_ACTIONS[role].includes(action);
+}
+
+export async function getWorkspaceRole(actor: Actor, workspaceId: string): Promise<WorkspaceRole | null> {
+  const member = await storage.getWorkspaceMember(workspaceId, actor.id);
+  return member ? member.role : null;
+}
+
+// Rows created before workspaces have no workspaceId until the startup
+// backfill has run; until then only their creator can reach them.
+async function memberCanAccess(
+  actor: Actor,
+  resource: { workspaceId: string | null; userId: string },
+  action: WorkspaceAction
+): Promise<boolean> {
+  if (!resource.workspaceId) return resource.userId === actor.id;
+  const role = await getWorkspaceRole(actor, resource.workspaceId);
+  return role !== null && roleAllows(role, action);
+}
+
+// "member" when the actor's own access allows the action, "admin" when only
+// their platform role does.
+async function accessVia(
+  actor: Actor,
+  resource: { workspaceId: string | null; userId: string },
+  action: WorkspaceAction
+): Promise<"member" | "admin" | null> {
+  if (await memberCanAccess(actor, resource, action)) return "member";
+  return actor.role === "ADMIN" ? "admin" : null;
+}
+
+export async function authorizeWorkspace(
+  actor: Actor,
+  workspaceId: string,
+  action: WorkspaceAction
+): Promise<{ workspace: Workspace; role: WorkspaceRole | null } | Denied> {
+  const workspace = await storage.getWorkspace(workspaceId);
+  if (!workspace) {
+    return { status: 404, message: "Workspace not found" };
+  }
+  const role = await getWorkspaceRole(actor, workspace.id);
+  if (actor.role !== "ADMIN" && (!role || !roleAllows(role, action))) {
+    return { status: 403, message: "Access denied" };
+  }
+  return { workspace, role };
+}
+
+export async function authorizeProject(
+  actor: Actor,
+  projectId: string,
+  action: WorkspaceAction
+): Promise<{ project: Project; asAdmin: boolean } | Denied> {
+  const project = await storage.getProject(projectId);
+  if (!project) {
+    return { status: 404, message: "Project not found" };
+  }
+  const via = await accessVia(actor, project, action);
+  if (!via) {
+    return { status: 403, message: "Access denied" };
+  }
+  return { project, asAdmin: via === "admin" };
+}
+
+export async function authorizeMedia(
+  actor: Actor,
+  mediaId: string,
+  action: WorkspaceAction
+): Promise<{ media: Media } | Denied> {
+  const mediaItem = await storage.getMediaItem(mediaId);
+  if (!mediaItem) {
+    return { status: 404, message: "Media not found" };
+  }
+  if (!(await accessVia(actor, mediaItem, action))) {
+    return { status: 403, message: "Access denied" };
+  }
+  return { media: mediaItem };
+}
+
+// Jobs report progress to whoever started them.
+export function canViewJob(actor: Actor, job: Job): boolean {
+  return job.userId === actor.id || actor.role === "ADMIN";
+}
+
+/**
+ * The workspace new projects, uploads and AI usage go to: the requested one
+ * if the user may write to it, otherwise their personal workspace.
+ */
+export async function resolveTargetWorkspace(
+  actor: Actor,
+  workspaceId: string | null | undefined
+): Promise<{ workspace: Workspace } | Denied> {
+  if (workspaceId) {
+    const access = await authorizeWorkspace(actor, workspaceId, "write");
+    return "status" in access ? access : { workspace: access.workspace };
+  }
+  const user = await storage.getUser(actor.id);
+  if (!user) {
+    return { status: 404, message: "User not found" };
+  }
+  return { workspace: await storage.ensurePersonalWorkspace(user) };
+}
+
+// The workspace whose plan and credits pay for AI work on a project.
+export async function projectWorkspaceId(project: Project): Promise<string> {
+  if (project.workspaceId) return project.workspaceId;
+  const owner = await storage.getUser(project.userId);
+  if (!owner) {
+    throw new Error("Project owner not found");
+  }
+  return (await storage.ensurePersonalWorkspace(owner)).id;
+}
+
+// The workspace whose plan limits apply to a project.
+export async function projectWorkspace(project: Project): Promise<Workspace> {
+  const workspace = await storage.getWorkspace(await projectWorkspaceId(project));
+  if (!workspace) {
+    throw new Error("Project workspace not found");
+  }
+  return workspace;
+}
@@ -0,0 +1,312 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import type { AuthRequest } from "./auth";
+import type { LoginThrottle, LoginThrottleScope, Workspace } from "@shared/schema";
+
+type PlanType = Workspace["planType"];
+
+export interface RateLimitHit {
+  count: number;
+  resetAt: Date;
+}
+
+export interface RateLimitStore {
+  readonly name: string;
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+  prune(): Promise<void>;
+}
+
+/**
+ * Counts requests in process memory. The default; limits are per instance, so
+ * use the Postgres store when running more than one.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = "memory";
+  private readonly counters = new Map<string, RateLimitHit>();
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    const current = this.counters.get(key);
+    if (!current || current.resetAt.getTime() <= now) {
+      const started = { count: 1, resetAt: new Date(now + windowMs) };
+      this.counters.set(key, started);
+      return { ...started };
+    }
+    current.count++;
+    return { ...current };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.counters.delete(key);
+  }
+
+  async prune(): Promise<void> {
+    const now = Date.now();
+    for (const [key, counter] of Array.from(this.counters)) {
+      if (counter.resetAt.getTime() <= now) {
+        this.counters.delete(key);
+      }
+    }
+  }
+}
+
+// Shares counters between instances through the rate_limit_counters table.
+export class PostgresRateLimitStore implements RateLimitStore {
+  readonly name = "postgres";
+
+  hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    return storage.hitRateLimit(key, windowMs);
+  }
+
+  reset(key: string): Promise<void> {
+    return storage.resetRateLimit(key);
+  }
+
+  async prune(): Promise<void> {
+    await storage.pruneRateLimits();
+  }
+}
+
+export function createRateLimitStore(): RateLimitStore {
+  const store = (process.env.RATE_LIMIT_STORE || "memory").toLowerCase();
+
+  switch (store) {
+    case "memory":
+      return new MemoryRateLimitStore();
+    case "postgres":
+      return new PostgresRateLimitStore();
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE "${store}"`);
+  }
+}
+
+let rateLimitStore: RateLimitStore | undefined;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!rateLimitStore) {
+    rateLimitStore = createRateLimitStore();
+  }
+  return rateLimitStore;
+}
+
+export interface RateLimitRule {
+  limit: number;
+  windowMs: number;
+}
+
+// auth: sign-in and token endpoints, per IP address.
+// email: endpoints that send email, per IP address.
+// ai: AI generation, per user, by the best plan among the user's workspaces.
+export type RateLimitGroup = "auth" | "email" | "ai";
+
+const DEFAULT_RULES: Record<RateLimitGroup, Record<PlanType, string>> = {
+  auth: { free: "20/15m", pro: "20/15m", enterprise: "20/15m" },
+  email: { free: "5/1h", pro: "5/1h", enterprise: "5/1h" },
+  ai: { free: "5/1m", pro: "20/1m", enterprise: "60/1m" },
+};
+
+const PLAN_RANK: Record<PlanType, number> = { free: 0, pro: 1, enterprise: 2 };
+
+const UNIT_MS: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000 };
+
+/**
+ * Parses a rule such as "20/15m" (20 requests per 15 minutes). The window
+ * takes an s, m or h suffix and defaults to seconds. "off" disables the limit.
+ */
+export function parseRateLimitRule(spec: string): RateLimitRule | null {
+  if (spec.trim().toLowerCase() === "off") return null;
+  const match = spec.trim().match(/^(\d+)\/(\d+)([smh]?)$/);
+  if (!match) {
+    throw new Error(`Invalid rate limit "${spec}"; expected e.g. "20/15m" or "off"`);
+  }
+  return {
+    limit: parseInt(match[1], 10),
+    windowMs: parseInt(match[2], 10) * UNIT_MS[match[3] || "s"],
+  };
+}
+
+// RATE_LIMIT_<GROUP>_<PLAN> overrides RATE_LIMIT_<GROUP>, which overrides the
+// defaults above.
+export function getRateLimitRule(group: RateLimitGroup, plan: PlanType): RateLimitRule | null {
+  const name = `RATE_LIMIT_${group.toUpperCase()}`;
+  const spec = process.env[`${name}_${plan.toUpperCase()}`] || process.env[name] || DEFAULT_RULES[group][plan];
+  return parseRateLimitRule(spec);
+}
+
+async function requesterPlan(req: AuthRequest): Promise<PlanType> {
+  if (!req.user) return "free";
+  const workspaceList = await storage.getUserWorkspaces(req.user.id);
+  return workspaceList.reduce<PlanType>(
+    (best, workspace) => PLAN_RANK[workspace.planType] > PLAN_RANK[best] ? workspace.planType : best,
+    "free"
+  );
+}
+
+function clientIp(req: Request): string {
+  return req.ip || req.socket.remoteAddress || "unknown";
+}
+
+/**
+ * Limits a route group per IP address, or per user for the "ai" group. Sets
+ * the RateLimit-* headers on every response and Retry-After when the limit
+ * is reached. If the store is unavailable the request is let through.
+ */
+export function rateLimit(group: RateLimitGroup) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    try {
+      const perUser = group === "ai" && req.user;
+      const rule = getRateLimitRule(group, perUser ? await requesterPlan(req) : "free");
+      if (!rule) return next();
+
+      const key = `${group}:${perUser ? `user:${req.user!.id}` : `ip:${clientIp(req)}`}`;
+      const hit = await getRateLimitStore().hit(key, rule.windowMs);
+      const resetSeconds = Math.max(0, Math.ceil((hit.resetAt.getTime() - Date.now()) / 1000));
+
+      res.setHeader("RateLimit-Policy", `${rule.limit};w=${Math.round(rule.windowMs / 1000)}`);
+      res.setHeader("RateLimit-Limit", String(rule.limit));
+      res.setHeader("RateLimit-Remaining", String(Math.max(0, rule.limit - hit.count)));
+      res.setHeader("RateLimit-Reset", String(resetSeconds));
+
+      if (hit.count > rule.limit) {
+        res.setHeader("Retry-After", String(resetSeconds));
+        return res.status(429).json({
+          message: `Too many requests. Please try again in ${formatWait(resetSeconds)}.`,
+        });
+      }
+      next();
+    } catch (error) {
+      console.error("Rate limit error:", error);
+      next();
+    }
+  };
+}
+
+const AI_MAX_CONCURRENT_PER_USER = parseInt(process.env.AI_MAX_CONCURRENT_PER_USER || "2", 10);
+const inFlightAiRequests = new Map<string, number>();
+
+/**
+ * Caps how many AI requests one user can have open at once on this instance.
+ * Queued generations are also limited per user by the job worker.
+ */
+export function aiConcurrencyLimit(req: AuthRequest, res: Response, next: NextFunction) {
+  const userId = req.user!.id;
+  const active = inFlightAiRequests.get(userId) || 0;
+  if (active >= AI_MAX_CONCURRENT_PER_USER) {
+    res.setHeader("Retry-After", "5");
+    return res.status(429).json({
+      message: "You already have AI requests in progress. Please wait for them to finish.",
+    });
+  }
+
+  inFlightAiRequests.set(userId, active + 1);
+  let released = false;
+  const release = () => {
+    if (released) return;
+    released = true;
+    const remaining = (inFlightAiRequests.get(userId) || 1) - 1;
+    if (remaining > 0) {
+      inFlightAiRequests.set(userId, remaining);
+    } else {
+      inFlightAiRequests.delete(userId);
+    }
+  };
+  res.on("finish", release);
+  res.on("close", release);
+  next();
+}
+
+// Failed logins before an email address or an IP address is locked. The
+// first lockout lasts a minute and each further failure doubles it.
+const LOCKOUT_THRESHOLDS: Record<LoginThrottleScope, number> = {
+  account: parseInt(process.env.LOGIN_LOCKOUT_ACCOUNT_THRESHOLD || "5", 10),
+  ip: parseInt(process.env.LOGIN_LOCKOUT_IP_THRESHOLD || "20", 10),
+};
+const BASE_LOCKOUT_MS = 60_000;
+const MAX_LOCKOUT_MS = 60 * 60 * 1000;
+// Failures are forgotten after a day without another one.
+const FAILURE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export function lockoutDuration(scope: LoginThrottleScope, failureCount: number): number {
+  const threshold = LOCKOUT_THRESHOLDS[scope];
+  if (failureCount < threshold) return 0;
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (failureCount - threshold), MAX_LOCKOUT_MS);
+}
+
+function loginIdentifiers(email: string, ip: string): { scope: LoginThrottleScope; identifier: string }[] {
+  return [
+    { scope: "account", identifier: email.trim().toLowerCase() },
+    { scope: "ip", identifier: ip },
+  ];
+}
+
+function latestLock(throttles: LoginThrottle[]): Date | null {
+  const now = Date.now();
+  return throttles.reduce<Date | null>((latest, throttle) => {
+    const lockedUntil = throttle.lockedUntil;
+    if (!lockedUntil || lockedUntil.getTime() <= now) return latest;
+    return !latest || lockedUntil > latest ? lockedUntil : latest;
+  }, null);
+}
+
+// When the email address or the caller's IP is locked out, until when.
+export async function getLoginLockout(req: Request, email: string): Promise<Date | null> {
+  return latestLock(await storage.getLoginThrottles(loginIdentifiers(email, clientIp(req))));
+}
+
+/**
+ * Counts a failed login against the email address and the IP address, and
+ * locks either once it passes its threshold. Returns the lockout now in
+ * force, if any.
+ */
+export async function recordFailedLogin(req: Request, email: string): Promise<Date | null> {
+  const windowStart = new Date(Date.now() - FAILURE_WINDOW_MS);
+  const throttles = await Promise.all(loginIdentifiers(email, clientIp(req)).map(async ({ scope, identifier }) => {
+    const throttle = await storage.recordLoginFailure(scope, identifier, windowStart);
+    const duration = lockoutDuration(scope, throttle.failureCount);
+    if (duration > 0) {
+      throttle.lockedUntil = new Date(Date.now() + duration);
+      await storage.lockLoginThrottle(throttle.id, throttle.lockedUntil);
+    }
+    return throttle;
+  }));
+  return latestLock(throttles);
+}
+
+// A successful login clears the account's failures. The IP's are kept, so
+// one known password can't be used to reset the count while guessing others.
+export async function clearFailedLogins(email: string): Promise<void> {
+  await storage.clearLoginThrottle("account", email.trim().toLowerCase());
+}
+
+export function sendLockedOut(res: Response, lockedUntil: Date) {
+  const seconds = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 1000));
+  res.setHeader("Retry-After", String(seconds));
+  return res.status(429).json({
+    message: `Too many failed login attempts. Please try again in ${formatWait(seconds)}.`,
+    lockedUntil,
+  });
+}
+
+function formatWait(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+}
+
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Drops expired counters and forgotten login failures once an hour.
+export function startRateLimitPruning(): RateLimitStore {
+  const store = getRateLimitStore();
+  const prune = async () => {
+    try {
+      await store.prune();
+      await storage.pruneLoginThrottles(new Date(Date.now() - FAILURE_WINDOW_MS));
+    } catch (error) {
+      console.error("Rate limit pruning error:", error);
+    }
+  };
+  setInterval(prune, PRUNE_INTERVAL_MS).unref();
+  return store;
+}
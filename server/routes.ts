@@ -1,18 +1,127 @@
-import type { Express } from "express";
+import express, { type Express, type Request, type Response } from "express";
+import multer from "multer";
+import archiver from "archiver";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import {
   hashPassword,
   comparePassword,
   generateToken,
+  createSession,
+  buildRefreshToken,
+  hashToken,
+  ACCESS_TOKEN_TTL_SECONDS,
+  sendVerificationEmail,
+  sendPasswordResetEmail,
+  forcePasswordReset,
+  sendSuspended,
   authMiddleware,
   adminMiddleware,
+  verifiedEmailMiddleware,
+  requireScope,
+  sessionOnlyMiddleware,
+  generateApiKey,
+  generateLinkToken,
   stripPassword,
   type AuthRequest,
 } from "./auth";
-import { signupSchema, loginSchema, insertProjectSchema, aiGenerateSchema } from "@shared/schema";
+import {
+  signupSchema,
+  loginSchema,
+  refreshTokenSchema,
+  forgotPasswordSchema,
+  resetPasswordSchema,
+  verifyEmailSchema,
+  createApiKeySchema,
+  auditLogQuerySchema,
+  adminUserQuerySchema,
+  suspendUserSchema,
+  adjustAiCreditsSchema,
+  updateUserPlanSchema,
+  aiUsageReportQuerySchema,
+  createWorkspaceSchema,
+  inviteWorkspaceMemberSchema,
+  updateWorkspaceMemberSchema,
+  acceptInvitationSchema,
+  insertProjectSchema,
+  aiGenerateSchema,
+  insertTemplateSchema,
+  type Project,
+  type Page,
+  type Template,
+  type Workspace,
+} from "@shared/schema";
 import { z } from "zod";
-import { generateWebsite, regenerateSection } from "./openai-website";
+import { generateWebsite, generateContent, type WebsiteGenerationRequest } from "./openai-website";
+import { ensureInitialRevision, saveGeneratedWebsite, saveManualHtml, sanitizeContent } from "./websites";
+import {
+  authorizeWorkspace,
+  authorizeProject,
+  authorizeMedia,
+  canViewJob,
+  resolveTargetWorkspace,
+  projectWorkspace,
+} from "./policy";
+import { buildContentSecurityPolicy, sanitizeWebsiteCss } from "./sanitize";
+import { writeSiteExport, relativePageHref, HOSTING_TARGETS, type HostingTarget } from "./export";
+import { renderProjectPage, buildPageDocument, validatePageSlug, pagePath } from "./pages";
+import {
+  ANALYTICS_ENDPOINT,
+  BEACON_SCRIPT_HASH,
+  injectAnalyticsBeacon,
+  isBot,
+  classifyDevice,
+  normalizeReferrer,
+  normalizeViewPath,
+  hashVisitorId,
+} from "./analytics";
+import {
+  HONEYPOT_FIELD,
+  TIMESTAMP_FIELD,
+  FORM_NAME_FIELD,
+  PAGE_FIELD,
+  MIN_FILL_TIME_MS,
+  FORM_RATE_LIMIT,
+  FORM_RATE_LIMIT_WINDOW_MS,
+  formActionPath,
+  wireSiteForms,
+  verifyFormTimestamp,
+  hashSubmitterIp,
+  extractSubmissionFields,
+  notifyFormSubmission,
+  submissionsToCsv,
+  renderFormThankYouPage,
+} from "./forms";
+import {
+  ensureSectionMarkers,
+  parseSections,
+  findSection,
+  reorderSections,
+  removeSection,
+  insertSection,
+} from "./sections";
+import { enqueueJob } from "./jobs";
+import { reserveCredit, sendCreditDenied, commitCredit, refundCredit, refundReason, spendCredit } from "./credits";
+import { getMailer } from "./mailer";
+import { recordAudit, diffRecords, auditLogsToCsv } from "./audit";
+import { withEstimatedCostUsd, summarizeAiUsage } from "./ai-usage";
+import {
+  rateLimit,
+  aiConcurrencyLimit,
+  getLoginLockout,
+  recordFailedLogin,
+  clearFailedLogins,
+  sendLockedOut,
+} from "./rate-limit";
+import { workspaceInvitationEmail } from "./emails";
+import { handleBillingEvent, auditSubscriptionChange } from "./billing";
+import { verifyWebhookSignature } from "./webhook-signature";
+import { decodeCursor } from "./cursor";
+import { mediaStorage, LOCAL_MEDIA_DIR, LOCAL_MEDIA_ROUTE } from "./media-storage";
+import { sniffMimeType, buildMediaKey } from "./media";
+import { PLAN_CATALOG, MAX_UPLOAD_SIZE } from "./plans";
+import { checkEntitlement, resolveModel, sendEntitlementDenied } from "./entitlements";
+import { SLUG_PATTERN, DOMAIN_PATTERN, slugify, normalizeDomain, renderSiteHtml, renderNotFoundPage } from "./site";
 
 const websiteGenerateSchema = z.object({
   businessName: z.string().min(2, "Business name is required"),
@@ -20,20 +129,401 @@ const websiteGenerateSchema = z.object({
   description: z.string().min(10, "Description must be at least 10 characters"),
   primaryColor: z.string().optional(),
   sections: z.array(z.string()).optional(),
+  templateId: z.string().optional(),
+  workspaceId: z.string().optional(),
+  model: z.string().optional(),
+});
+
+type WebsiteGenerateInput = z.infer<typeof websiteGenerateSchema>;
+
+const reorderSectionsSchema = z.object({
+  order: z.array(z.string()).min(1, "Order is required"),
+});
+
+const insertSectionSchema = z.object({
+  html: z.string().min(1, "Section HTML is required"),
+  position: z.number().int().min(0).optional(),
+  name: z.string().optional(),
+});
+
+const createPageSchema = z.object({
+  title: z.string().min(1, "Page title is required"),
+  slug: z.string().optional(),
+  html: z.string().optional(),
+  metaTitle: z.string().nullable().optional(),
+  metaDescription: z.string().nullable().optional(),
+});
+
+const updatePageSchema = createPageSchema.partial();
+
+const reorderPagesSchema = z.object({
+  order: z.array(z.string()).min(1, "Order is required"),
+});
+
+const pageGenerateSchema = z.object({
+  projectId: z.string(),
+  title: z.string().min(1, "Page title is required"),
+  slug: z.string().optional(),
+  instructions: z.string().min(10, "Instructions must be at least 10 characters"),
+  model: z.string().optional(),
+});
+
+const MAX_API_KEYS_PER_USER = 25;
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_AUDIT_EXPORT_ROWS = 10_000;
+
+const updateSubmissionSchema = z.object({
+  isRead: z.boolean(),
+});
+
+const analyticsEventSchema = z.object({
+  p: z.string().min(1).max(64),
+  u: z.string().max(2048),
+  r: z.string().max(2048).optional(),
+});
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_UPLOAD_SIZE, files: 1 },
 });
 
 const websiteRegenerateSchema = z.object({
   projectId: z.string(),
   sectionName: z.string(),
   instructions: z.string().min(5, "Instructions are required"),
+  model: z.string().optional(),
 });
 
+// Generated sites are untrusted output, so everywhere we serve them as HTML
+// the browser is told not to run scripts or load from unapproved origins.
+function setSiteSecurityHeaders(res: Response, scriptHashes: string[] = []) {
+  res.setHeader("Content-Security-Policy", buildContentSecurityPolicy(scriptHashes));
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  res.setHeader("Referrer-Policy", "strict-origin-when-cross-origin");
+}
+
+function sendSiteNotFound(res: Response) {
+  res.status(404);
+  res.setHeader("Content-Type", "text/html; charset=utf-8");
+  res.setHeader("Cache-Control", "no-cache");
+  res.send(renderNotFoundPage());
+}
+
+// Public hosting only ever serves published projects; drafts and archived
+// projects get the same branded 404 as a slug that doesn't exist. `basePath`
+// is where the site is mounted ("" on a custom domain, "/s/<slug>" otherwise).
+async function sendPublishedSite(
+  res: Response,
+  project: Project | undefined,
+  pageSlug: string | undefined,
+  basePath: string
+) {
+  if (!project || project.status !== "published" || !project.generatedHtml) {
+    return sendSiteNotFound(res);
+  }
+
+  const pages = await storage.getPages(project.id);
+  const page = pageSlug ? pages.find((candidate) => candidate.slug === pageSlug) : undefined;
+  if (pageSlug && !page) {
+    return sendSiteNotFound(res);
+  }
+
+  const lastModified = page && page.updatedAt > project.updatedAt ? page.updatedAt : project.updatedAt;
+  const path = pagePath(page ? page.slug : null);
+  const html = wireSiteForms(
+    renderProjectPage(project, pages, page, (target) => target === "/" ? basePath || "/" : `${basePath}${target}`),
+    project.id,
+    formActionPath(project.id),
+    path
+  );
+
+  setSiteSecurityHeaders(res, [BEACON_SCRIPT_HASH]);
+  res.setHeader("Content-Type", "text/html; charset=utf-8");
+  res.setHeader("Cache-Control", "public, max-age=60, s-maxage=300, stale-while-revalidate=600");
+  res.setHeader("Last-Modified", lastModified.toUTCString());
+  res.send(injectAnalyticsBeacon(html, project.id, path));
+}
+
+// Slug for a new or renamed page: the requested one, or one derived from the
+// title. Returns an error message when it is invalid or already taken.
+async function resolvePageSlug(
+  projectId: string,
+  requested: string | undefined,
+  title: string,
+  pageId?: string
+): Promise<{ slug: string } | { status: number; message: string }> {
+  const slug = requested !== undefined ? requested : slugify(title);
+  const invalid = validatePageSlug(slug);
+  if (invalid) {
+    return { status: 400, message: invalid };
+  }
+  const existing = await storage.getPageBySlug(projectId, slug);
+  if (existing && existing.id !== pageId) {
+    return { status: 409, message: "A page with this slug already exists" };
+  }
+  return { slug };
+}
+
+// Looks up a template for use in a workspace. Premium templates need the
+// workspace to be on a paid plan in good standing.
+async function resolveTemplate(
+  templateId: string,
+  workspace: Workspace
+): Promise<{ template: Template } | { status: number; message: string; requiresUpgrade?: boolean }> {
+  const template = await storage.getTemplate(templateId);
+  if (!template) {
+    return { status: 400, message: "Template not found" };
+  }
+  if (template.isPremium) {
+    const denial = await checkEntitlement(workspace, { feature: "premiumTemplate" });
+    if (denial) return denial;
+  }
+  return { template };
+}
+
+/**
+ * Validates a project's public slug and custom domain, and normalizes the
+ * domain. Only the fields given are checked; `projectId` is the project being
+ * updated, which may keep its own slug and domain.
+ */
+async function checkProjectAddress(
+  address: { slug?: string | null; domain?: string | null },
+  projectId?: string
+): Promise<{ slug?: string; domain?: string | null } | { status: number; message: string }> {
+  const checked: { slug?: string; domain?: string | null } = {};
+
+  if (address.slug !== undefined) {
+    if (!address.slug || !SLUG_PATTERN.test(address.slug)) {
+      return { status: 400, message: "Slug may only contain lowercase letters, numbers and hyphens" };
+    }
+    const existing = await storage.getProjectBySlug(address.slug);
+    if (existing && existing.id !== projectId) {
+      return { status: 409, message: "Slug is already in use" };
+    }
+    checked.slug = address.slug;
+  }
+
+  if (address.domain !== undefined) {
+    if (!address.domain) {
+      checked.domain = null;
+    } else {
+      const normalized = normalizeDomain(address.domain);
+      if (!DOMAIN_PATTERN.test(normalized)) {
+        return { status: 400, message: "Domain is invalid" };
+      }
+      const existing = await storage.getProjectByDomain(normalized);
+      if (existing && existing.id !== projectId) {
+        return { status: 409, message: "Domain is already connected to another project" };
+      }
+      checked.domain = normalized;
+    }
+  }
+
+  return checked;
+}
+
+function buildGenerationRequest(
+  input: WebsiteGenerateInput,
+  template: Template | undefined,
+  model: string | undefined
+): WebsiteGenerationRequest {
+  return {
+    businessName: input.businessName,
+    businessType: input.businessType,
+    description: input.description,
+    primaryColor: input.primaryColor,
+    sections: input.sections ?? template?.sections ?? undefined,
+    templateId: template?.id,
+    promptHints: template?.promptHints ?? undefined,
+    model,
+  };
+}
+
+function sanitizeTemplateContent(html: string | null | undefined, css: string | null | undefined) {
+  if (!html) {
+    return css ? { css: sanitizeWebsiteCss(css).css } : {};
+  }
+  const { generatedHtml, generatedCss } = sanitizeContent(ensureSectionMarkers(html), css ?? null);
+  return { html: generatedHtml, css: generatedCss };
+}
+
+// Absolute URL of this API, for links in HTML that leaves our origin
+// (downloads and exports).
+function apiBaseUrl(req: Request): string {
+  return (process.env.PUBLIC_URL || `${req.protocol}://${req.get("host")}`).replace(/\/$/, "");
+}
+
+// Workspace named by `?workspaceId=` (any member may read its plan and
+// usage), or the user's personal workspace.
+async function resolveUsageWorkspace(req: AuthRequest) {
+  const workspaceId = typeof req.query.workspaceId === "string" ? req.query.workspaceId : undefined;
+  return workspaceId
+    ? authorizeWorkspace(req.user!, workspaceId, "read")
+    : resolveTargetWorkspace(req.user!, undefined);
+}
+
+function analyticsSince(days: unknown): Date {
+  const parsed = Math.min(Math.max(parseInt(String(days || "30"), 10) || 30, 1), 365);
+  const since = new Date();
+  since.setUTCHours(0, 0, 0, 0);
+  since.setUTCDate(since.getUTCDate() - (parsed - 1));
+  return since;
+}
+
+function toPageSummary(page: Page) {
+  const { html, sanitizationReport, ...summary } = page;
+  return { ...summary, path: pagePath(page.slug) };
+}
+
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+
+  app.use(LOCAL_MEDIA_ROUTE, express.static(LOCAL_MEDIA_DIR, {
+    maxAge: "365d",
+    immutable: true,
+    fallthrough: false,
+  }));
+
+  app.use(async (req, res, next) => {
+    if (req.method !== "GET" && req.method !== "HEAD") return next();
+    if (req.path.startsWith("/api") || req.path.startsWith("/s/") || !req.hostname) return next();
+
+    try {
+      const project = await storage.getProjectByDomain(normalizeDomain(req.hostname));
+      if (!project) return next();
+
+      const path = req.path.replace(/^\/+|\/+$/g, "");
+      if (path === "" || path === "index.html") {
+        return await sendPublishedSite(res, project, undefined, "");
+      }
+      if (path.includes("/")) {
+        return sendSiteNotFound(res);
+      }
+      await sendPublishedSite(res, project, path.toLowerCase(), "");
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.get("/s/:slug", async (req, res) => {
+    try {
+      const project = await storage.getProjectBySlug(req.params.slug.toLowerCase());
+      await sendPublishedSite(res, project, undefined, `/s/${req.params.slug.toLowerCase()}`);
+    } catch (error) {
+      console.error("Public site error:", error);
+      res.status(500).json({ message: "Failed to load site" });
+    }
+  });
+
+  app.get("/s/:slug/:page", async (req, res) => {
+    try {
+      const slug = req.params.slug.toLowerCase();
+      const project = await storage.getProjectBySlug(slug);
+      await sendPublishedSite(res, project, req.params.page.toLowerCase(), `/s/${slug}`);
+    } catch (error) {
+      console.error("Public site error:", error);
+      res.status(500).json({ message: "Failed to load site" });
+    }
+  });
   
-  app.post("/api/auth/signup", async (req, res) => {
+  // Beacons are sent with navigator.sendBeacon, which posts the JSON as text/plain.
+  app.post(ANALYTICS_ENDPOINT, express.text({ type: "*/*", limit: "4kb" }), async (req, res) => {
+    try {
+      const userAgent = req.get("user-agent") || "";
+      if (isBot(userAgent)) {
+        return res.status(204).send();
+      }
+
+      const event = analyticsEventSchema.parse(typeof req.body === "string" ? JSON.parse(req.body) : req.body);
+      const project = await storage.getProject(event.p);
+      if (!project || project.status !== "published") {
+        return res.status(204).send();
+      }
+
+      await storage.recordPageView({
+        projectId: project.id,
+        path: normalizeViewPath(event.u),
+        referrer: normalizeReferrer(event.r, req.get("host")),
+        device: classifyDevice(userAgent),
+        visitorId: hashVisitorId(project.id, req.ip || "", userAgent),
+      });
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError || error instanceof SyntaxError) {
+        return res.status(400).json({ message: "Invalid analytics event" });
+      }
+      console.error("Analytics collect error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/forms/:projectId/submit", async (req, res) => {
+    try {
+      // Unpublished projects don't take submissions, so their inboxes can't be
+      // filled by anyone who learns a project id.
+      const project = await storage.getProject(req.params.projectId);
+      if (!project || project.status !== "published") {
+        return res.status(404).json({ message: "Form not found" });
+      }
+
+      const body = (req.body && typeof req.body === "object" ? req.body : {}) as Record<string, unknown>;
+      const wantsJson = Boolean(req.is("application/json")) || !req.accepts("html");
+      const referrer = req.get("referer");
+      const respondAccepted = () => {
+        if (wantsJson) {
+          return res.status(201).json({ message: "Thank you! Your message has been sent." });
+        }
+        setSiteSecurityHeaders(res);
+        res.status(200).type("html").send(renderFormThankYouPage(referrer && /^https?:\/\//i.test(referrer) ? referrer : null));
+      };
+
+      // Filtered submissions get the same response as real ones so bots can't
+      // tell they were caught.
+      if (body[HONEYPOT_FIELD]) {
+        return respondAccepted();
+      }
+      const renderedAt = verifyFormTimestamp(project.id, body[TIMESTAMP_FIELD]);
+      if (renderedAt === null || Date.now() - renderedAt < MIN_FILL_TIME_MS) {
+        return respondAccepted();
+      }
+
+      const ipHash = hashSubmitterIp(project.id, req.ip || "");
+      const recent = await storage.countRecentFormSubmissions(
+        project.id,
+        ipHash,
+        new Date(Date.now() - FORM_RATE_LIMIT_WINDOW_MS)
+      );
+      if (recent >= FORM_RATE_LIMIT) {
+        return res.status(429).json({ message: "Too many submissions. Please try again later." });
+      }
+
+      const data = extractSubmissionFields(body);
+      if (Object.values(data).every((value) => !value)) {
+        return res.status(400).json({ message: "Form is empty" });
+      }
+
+      const submission = await storage.createFormSubmission({
+        projectId: project.id,
+        formName: String(body[FORM_NAME_FIELD] || "form").replace(/[\r\n]+/g, " ").slice(0, 100),
+        pagePath: typeof body[PAGE_FIELD] === "string" ? String(body[PAGE_FIELD]).slice(0, 512) : null,
+        data,
+        ipHash,
+      });
+
+      notifyFormSubmission(project, submission).catch((error) => {
+        console.error("Form notification error:", error);
+      });
+
+      respondAccepted();
+    } catch (error) {
+      console.error("Form submission error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/signup", rateLimit("auth"), async (req, res) => {
     try {
       const validatedData = signupSchema.parse(req.body);
 
@@ -49,11 +539,15 @@ export async function registerRoutes(
         name: validatedData.name,
         role: "CLIENT",
       });
+      await storage.ensurePersonalWorkspace(user);
+
+      sendVerificationEmail(user).catch((error) => {
+        console.error("Verification email error:", error);
+      });
 
-      const userSafe = stripPassword(user);
-      const token = generateToken(userSafe);
+      const session = await createSession(user, req.get("user-agent"));
 
-      res.status(201).json({ token, user: userSafe });
+      res.status(201).json({ ...session, user: stripPassword(user) });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
@@ -63,24 +557,34 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/auth/login", async (req, res) => {
+  app.post("/api/auth/login", rateLimit("auth"), async (req, res) => {
     try {
       const validatedData = loginSchema.parse(req.body);
 
+      // Checked before bcrypt runs, so a locked-out caller costs no hashing.
+      const lockedUntil = await getLoginLockout(req, validatedData.email);
+      if (lockedUntil) {
+        return sendLockedOut(res, lockedUntil);
+      }
+
       const user = await storage.getUserByEmail(validatedData.email);
-      if (!user) {
+      const isValidPassword = user ? await comparePassword(validatedData.password, user.password) : false;
+      if (!user || !isValidPassword) {
+        const locked = await recordFailedLogin(req, validatedData.email);
+        if (locked) {
+          return sendLockedOut(res, locked);
+        }
         return res.status(401).json({ message: "Invalid email or password" });
       }
 
-      const isValidPassword = await comparePassword(validatedData.password, user.password);
-      if (!isValidPassword) {
-        return res.status(401).json({ message: "Invalid email or password" });
+      await clearFailedLogins(validatedData.email);
+      if (user.suspendedAt) {
+        return sendSuspended(res);
       }
 
-      const userSafe = stripPassword(user);
-      const token = generateToken(userSafe);
+      const session = await createSession(user, req.get("user-agent"));
 
-      res.json({ token, user: userSafe });
+      res.json({ ...session, user: stripPassword(user) });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
@@ -90,7 +594,173 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/auth/me", authMiddleware, async (req: AuthRequest, res) => {
+  app.post("/api/auth/refresh", rateLimit("auth"), async (req, res) => {
+    try {
+      const { refreshToken } = refreshTokenSchema.parse(req.body);
+
+      const stored = await storage.getRefreshTokenByHash(hashToken(refreshToken));
+      if (!stored) {
+        return res.status(401).json({ message: "Invalid refresh token" });
+      }
+      if (stored.revokedAt) {
+        // A rotated-out token came back: someone else holds a copy. End the
+        // whole session so neither party can keep using it.
+        await storage.revokeRefreshTokenFamily(stored.familyId);
+        return res.status(401).json({ message: "Refresh token has been revoked" });
+      }
+      if (stored.expiresAt.getTime() <= Date.now()) {
+        return res.status(401).json({ message: "Refresh token has expired" });
+      }
+
+      const user = await storage.getUser(stored.userId);
+      if (!user) {
+        return res.status(401).json({ message: "Invalid refresh token" });
+      }
+      if (user.suspendedAt) {
+        return sendSuspended(res);
+      }
+
+      const { refreshToken: nextRefreshToken, record } = buildRefreshToken(user.id, req.get("user-agent"), stored.familyId);
+      const rotated = await storage.rotateRefreshToken(stored.id, record);
+      if (!rotated) {
+        await storage.revokeRefreshTokenFamily(stored.familyId);
+        return res.status(401).json({ message: "Refresh token has been revoked" });
+      }
+
+      res.json({
+        token: generateToken(user),
+        refreshToken: nextRefreshToken,
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Refresh token error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Doesn't require a valid access token, so clients can log out after it
+  // has expired.
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      const { refreshToken } = refreshTokenSchema.parse(req.body);
+
+      const stored = await storage.getRefreshTokenByHash(hashToken(refreshToken));
+      if (stored) {
+        await storage.revokeRefreshTokenFamily(stored.familyId);
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Logout error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/logout-all", authMiddleware, sessionOnlyMiddleware, async (req: AuthRequest, res) => {
+    try {
+      await storage.revokeUserRefreshTokens(req.user!.id);
+      await storage.incrementTokenVersion(req.user!.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Logout all error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/forgot-password", rateLimit("email"), async (req, res) => {
+    try {
+      const { email } = forgotPasswordSchema.parse(req.body);
+
+      // Same response whether or not the account exists, and the email is
+      // sent in the background so timing doesn't give it away either.
+      const user = await storage.getUserByEmail(email);
+      if (user) {
+        sendPasswordResetEmail(user).catch((error) => {
+          console.error("Password reset email error:", error);
+        });
+      }
+
+      res.json({ message: "If an account exists for that email, we've sent a link to reset the password." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Forgot password error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/reset-password", rateLimit("auth"), async (req, res) => {
+    try {
+      const { token, password } = resetPasswordSchema.parse(req.body);
+
+      const consumed = await storage.consumeAccountToken(hashToken(token), "password_reset");
+      if (!consumed) {
+        return res.status(400).json({ message: "This reset link is invalid or has expired" });
+      }
+
+      await storage.updateUserPassword(consumed.userId, await hashPassword(password));
+      // A reset after a compromise has to end every session, including
+      // access tokens that haven't expired yet.
+      await storage.revokeUserRefreshTokens(consumed.userId);
+      await storage.incrementTokenVersion(consumed.userId);
+      // The link was delivered to the account's inbox, which proves ownership.
+      await storage.markEmailVerified(consumed.userId);
+
+      res.json({ message: "Your password has been reset. Please log in with your new password." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Reset password error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/verify-email", rateLimit("auth"), async (req, res) => {
+    try {
+      const { token } = verifyEmailSchema.parse(req.body);
+
+      const consumed = await storage.consumeAccountToken(hashToken(token), "email_verification");
+      if (!consumed) {
+        return res.status(400).json({ message: "This verification link is invalid or has expired" });
+      }
+
+      await storage.markEmailVerified(consumed.userId);
+      res.json({ message: "Email verified", emailVerified: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Verify email error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/auth/resend-verification", authMiddleware, sessionOnlyMiddleware, rateLimit("email"), async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUser(req.user!.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.emailVerified) {
+        return res.status(400).json({ message: "Email is already verified" });
+      }
+
+      await sendVerificationEmail(user);
+      res.json({ message: "Verification email sent" });
+    } catch (error) {
+      console.error("Resend verification error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/auth/me", authMiddleware, requireScope("account:read"), async (req: AuthRequest, res) => {
     try {
       const user = await storage.getUser(req.user!.id);
       if (!user) {
@@ -103,192 +773,1711 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/stats", authMiddleware, async (req: AuthRequest, res) => {
+  app.get("/api/api-keys", authMiddleware, sessionOnlyMiddleware, async (req: AuthRequest, res) => {
     try {
-      const stats = await storage.getUserStats(req.user!.id);
-      res.json(stats);
+      const keys = await storage.getApiKeys(req.user!.id);
+      res.json(keys);
     } catch (error) {
-      console.error("Get stats error:", error);
+      console.error("Get API keys error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.get("/api/projects", authMiddleware, async (req: AuthRequest, res) => {
+  app.post("/api/api-keys", authMiddleware, sessionOnlyMiddleware, async (req: AuthRequest, res) => {
     try {
-      const projects = await storage.getProjects(req.user!.id);
-      res.json(projects);
+      const validatedData = createApiKeySchema.parse(req.body);
+
+      const activeKeys = await storage.countActiveApiKeys(req.user!.id);
+      if (activeKeys >= MAX_API_KEYS_PER_USER) {
+        return res.status(400).json({ message: `You can have at most ${MAX_API_KEYS_PER_USER} API keys. Revoke one to create another.` });
+      }
+
+      const { key, prefix, keyHash } = generateApiKey();
+      const created = await storage.createApiKey({
+        userId: req.user!.id,
+        name: validatedData.name,
+        prefix,
+        keyHash,
+        scopes: Array.from(new Set(validatedData.scopes)),
+        expiresAt: validatedData.expiresAt ?? null,
+      });
+
+      const { userId, keyHash: _keyHash, ...summary } = created;
+      // The only time the full key is returned; we can't show it again.
+      res.status(201).json({ ...summary, key });
     } catch (error) {
-      console.error("Get projects error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Create API key error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.get("/api/projects/:id", authMiddleware, async (req: AuthRequest, res) => {
+  app.delete("/api/api-keys/:id", authMiddleware, sessionOnlyMiddleware, async (req: AuthRequest, res) => {
     try {
-      const project = await storage.getProject(req.params.id);
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-      if (project.userId !== req.user!.id && req.user!.role !== "ADMIN") {
-        return res.status(403).json({ message: "Access denied" });
+      const revoked = await storage.revokeApiKey(req.user!.id, req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "API key not found" });
       }
-      res.json(project);
+      res.status(204).send();
     } catch (error) {
-      console.error("Get project error:", error);
+      console.error("Revoke API key error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/projects", authMiddleware, async (req: AuthRequest, res) => {
+  app.get("/api/workspaces", authMiddleware, requireScope("account:read"), async (req: AuthRequest, res) => {
     try {
-      const validatedData = insertProjectSchema.parse(req.body);
-      const templateId = validatedData.templateId && validatedData.templateId !== "none" 
-        ? validatedData.templateId 
-        : null;
-      const project = await storage.createProject({
-        ...validatedData,
-        templateId,
-        userId: req.user!.id,
-      });
-      res.status(201).json(project);
+      const workspaceList = await storage.getUserWorkspaces(req.user!.id);
+      res.json(workspaceList);
+    } catch (error) {
+      console.error("Get workspaces error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/workspaces", authMiddleware, sessionOnlyMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const validatedData = createWorkspaceSchema.parse(req.body);
+      const workspace = await storage.createWorkspace({ name: validatedData.name, ownerId: req.user!.id });
+      res.status(201).json({ ...workspace, role: "owner" });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
       }
-      console.error("Create project error:", error);
+      console.error("Create workspace error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.patch("/api/projects/:id", authMiddleware, async (req: AuthRequest, res) => {
+  app.get("/api/workspaces/:id", authMiddleware, requireScope("projects:read"), async (req: AuthRequest, res) => {
     try {
-      const project = await storage.getProject(req.params.id);
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
+      const access = await authorizeWorkspace(req.user!, req.params.id, "read");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
       }
-      if (project.userId !== req.user!.id && req.user!.role !== "ADMIN") {
-        return res.status(403).json({ message: "Access denied" });
+
+      const members = await storage.getWorkspaceMembers(access.workspace.id);
+      res.json({ ...access.workspace, role: access.role, members });
+    } catch (error) {
+      console.error("Get workspace error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/workspaces/:id", authMiddleware, sessionOnlyMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const validatedData = createWorkspaceSchema.parse(req.body);
+
+      const access = await authorizeWorkspace(req.user!, req.params.id, "manage");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+
+      const updated = await storage.updateWorkspace(access.workspace.id, { name: validatedData.name });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Update workspace error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/workspaces/:id", authMiddleware, sessionOnlyMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeWorkspace(req.user!, req.params.id, "manage");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { workspace } = access;
+
+      if (workspace.isPersonal) {
+        return res.status(400).json({ message: "Personal workspaces can't be deleted" });
+      }
+      if (await storage.countWorkspaceProjects(workspace.id) > 0) {
+        return res.status(409).json({ message: "Move or delete this workspace's projects first" });
+      }
+
+      for (const item of await storage.getMedia(req.user!.id, workspace.id)) {
+        if (!item.storageKey) continue;
+        try {
+          await mediaStorage.delete(item.storageKey);
+        } catch (storageError) {
+          console.error("Media storage delete error:", storageError);
+        }
+      }
+
+      await storage.deleteWorkspace(workspace.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete workspace error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/workspaces/:id/members/:userId", authMiddleware, sessionOnlyMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const validatedData = updateWorkspaceMemberSchema.parse(req.body);
+
+      const access = await authorizeWorkspace(req.user!, req.params.id, "manage");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      if (req.params.userId === access.workspace.ownerId) {
+        return res.status(400).json({ message: "The workspace owner's role can't be changed" });
+      }
+
+      const member = await storage.updateWorkspaceMemberRole(access.workspace.id, req.params.userId, validatedData.role);
+      if (!member) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.json(member);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Update workspace member error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Owners can remove anyone but the workspace's creator; members can remove
+  // themselves to leave.
+  app.delete("/api/workspaces/:id/members/:userId", authMiddleware, sessionOnlyMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const leaving = req.params.userId === req.user!.id;
+      const access = await authorizeWorkspace(req.user!, req.params.id, leaving ? "read" : "manage");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      if (req.params.userId === access.workspace.ownerId) {
+        return res.status(400).json({ message: "The workspace owner can't be removed" });
+      }
+
+      const removed = await storage.removeWorkspaceMember(access.workspace.id, req.params.userId);
+      if (!removed) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Remove workspace member error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/workspaces/:id/invitations", authMiddleware, sessionOnlyMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeWorkspace(req.user!, req.params.id, "manage");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+
+      const invitations = await storage.getWorkspaceInvitations(access.workspace.id);
+      res.json(invitations);
+    } catch (error) {
+      console.error("Get invitations error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/workspaces/:id/invitations", authMiddleware, sessionOnlyMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const validatedData = inviteWorkspaceMemberSchema.parse(req.body);
+      const email = validatedData.email.toLowerCase();
+
+      const access = await authorizeWorkspace(req.user!, req.params.id, "manage");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { workspace } = access;
+
+      if (workspace.isPersonal) {
+        return res.status(400).json({ message: "Personal workspaces can't be shared. Create a team workspace instead." });
+      }
+
+      const invitee = await storage.getUserByEmail(email);
+      if (invitee && await storage.getWorkspaceMember(workspace.id, invitee.id)) {
+        return res.status(409).json({ message: "This person is already a member" });
+      }
+
+      const { token, tokenHash } = generateLinkToken();
+      const invitation = await storage.createWorkspaceInvitation({
+        workspaceId: workspace.id,
+        email,
+        role: validatedData.role,
+        tokenHash,
+        invitedById: req.user!.id,
+        expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+      });
+
+      getMailer().send(workspaceInvitationEmail(email, workspace.name, req.user!.name, token)).catch((error) => {
+        console.error("Invitation email error:", error);
+      });
+
+      res.status(201).json(invitation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Create invitation error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/workspaces/:id/invitations/:invitationId", authMiddleware, sessionOnlyMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeWorkspace(req.user!, req.params.id, "manage");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+
+      const deleted = await storage.deleteWorkspaceInvitation(access.workspace.id, req.params.invitationId);
+      if (!deleted) {
+        return res.status(404).json({ message: "Invitation not found" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete invitation error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/invitations/accept", authMiddleware, sessionOnlyMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const { token } = acceptInvitationSchema.parse(req.body);
+
+      const invitation = await storage.getWorkspaceInvitationByHash(hashToken(token));
+      if (!invitation || invitation.acceptedAt || invitation.expiresAt.getTime() <= Date.now()) {
+        return res.status(400).json({ message: "This invitation is invalid or has expired" });
+      }
+      if (invitation.email !== req.user!.email.toLowerCase()) {
+        return res.status(403).json({ message: "This invitation was sent to a different email address" });
+      }
+
+      const accepted = await storage.acceptWorkspaceInvitation(invitation, req.user!.id);
+      if (!accepted) {
+        return res.status(400).json({ message: "This invitation is invalid or has expired" });
+      }
+
+      const workspace = await storage.getWorkspace(invitation.workspaceId);
+      const member = await storage.getWorkspaceMember(invitation.workspaceId, req.user!.id);
+      res.json({ ...workspace, role: member?.role ?? invitation.role });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Accept invitation error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/stats", authMiddleware, requireScope("account:read"), async (req: AuthRequest, res) => {
+    try {
+      const stats = await storage.getUserStats(req.user!.id);
+      res.json(stats);
+    } catch (error) {
+      console.error("Get stats error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects", authMiddleware, requireScope("projects:read"), async (req: AuthRequest, res) => {
+    try {
+      const workspaceId = typeof req.query.workspaceId === "string" ? req.query.workspaceId : undefined;
+      if (workspaceId) {
+        const access = await authorizeWorkspace(req.user!, workspaceId, "read");
+        if ("status" in access) {
+          return res.status(access.status).json({ message: access.message });
+        }
+      }
+
+      const projects = await storage.getProjects(req.user!.id, workspaceId);
+      res.json(projects);
+    } catch (error) {
+      console.error("Get projects error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects/:id", authMiddleware, requireScope("projects:read"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "read");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+      res.json(project);
+    } catch (error) {
+      console.error("Get project error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/projects", authMiddleware, requireScope("projects:write"), async (req: AuthRequest, res) => {
+    try {
+      const validatedData = insertProjectSchema.parse(req.body);
+      const templateId = validatedData.templateId && validatedData.templateId !== "none" 
+        ? validatedData.templateId 
+        : null;
+
+      const target = await resolveTargetWorkspace(req.user!, (validatedData as Partial<Project>).workspaceId);
+      if ("status" in target) {
+        return res.status(target.status).json({ message: target.message });
+      }
+      const { workspace } = target;
+
+      const denial = await checkEntitlement(workspace, { feature: "project" });
+      if (denial) {
+        return sendEntitlementDenied(res, denial);
+      }
+
+      // An empty slug means "generate one from the name".
+      const { slug, domain } = validatedData as Partial<Project>;
+      if (domain) {
+        const domainDenial = await checkEntitlement(workspace, { feature: "customDomain" });
+        if (domainDenial) {
+          return sendEntitlementDenied(res, domainDenial);
+        }
+      }
+      const address = await checkProjectAddress({ slug: slug || undefined, domain });
+      if ("status" in address) {
+        return res.status(address.status).json({ message: address.message });
+      }
+
+      let template: Template | undefined;
+      if (templateId) {
+        const resolved = await resolveTemplate(templateId, workspace);
+        if ("message" in resolved) {
+          const { status, ...body } = resolved;
+          return res.status(status).json(body);
+        }
+        template = resolved.template;
+      }
+
+      // Content sent with the request wins; otherwise the project starts as a
+      // copy of the template's.
+      const supplied = validatedData as Partial<Project>;
+      const generatedHtml = supplied.generatedHtml ?? template?.html ?? null;
+      const generatedCss = supplied.generatedCss ?? template?.css ?? null;
+      const project = await storage.createProject({
+        ...validatedData,
+        ...address,
+        ...(generatedHtml ? sanitizeContent(generatedHtml, generatedCss) : {}),
+        templateId,
+        userId: req.user!.id,
+        workspaceId: workspace.id,
+      });
+      if (project.generatedHtml || project.generatedCss) {
+        await storage.createProjectRevision({
+          projectId: project.id,
+          userId: req.user!.id,
+          source: "manual",
+          generatedHtml: project.generatedHtml,
+          generatedCss: project.generatedCss,
+        });
+      }
+      res.status(201).json(project);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Create project error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/projects/:id", authMiddleware, requireScope("projects:write"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "write");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      const updateData = insertProjectSchema.partial().parse(req.body);
+      const { generatedHtml, generatedCss, slug, domain, templateId, formNotificationEmail, workspaceId } = updateData as Partial<Project>;
+
+      // The workspace whose plan applies to the project once it's updated.
+      let planWorkspace: Workspace | undefined;
+
+      // Moving a project takes "manage" on its current workspace and "write"
+      // on the destination.
+      if (workspaceId !== undefined && workspaceId !== project.workspaceId) {
+        if (!workspaceId) {
+          return res.status(400).json({ message: "Workspace is required" });
+        }
+        const current = await authorizeProject(req.user!, project.id, "manage");
+        if ("status" in current) {
+          return res.status(current.status).json({ message: current.message });
+        }
+        const destination = await authorizeWorkspace(req.user!, workspaceId, "write");
+        if ("status" in destination) {
+          return res.status(destination.status).json({ message: destination.message });
+        }
+        const denial = await checkEntitlement(destination.workspace, { feature: "project" });
+        if (denial) {
+          return sendEntitlementDenied(res, denial);
+        }
+        planWorkspace = destination.workspace;
+      }
+      planWorkspace ??= await projectWorkspace(project);
+
+      if (templateId !== undefined && templateId !== project.templateId) {
+        if (!templateId || templateId === "none") {
+          Object.assign(updateData, { templateId: null });
+        } else {
+          const resolved = await resolveTemplate(templateId, planWorkspace);
+          if ("message" in resolved) {
+            const { status, ...body } = resolved;
+            return res.status(status).json(body);
+          }
+        }
+      }
+
+      if (formNotificationEmail && !z.string().email().safeParse(formNotificationEmail).success) {
+        return res.status(400).json({ message: "Form notification email is invalid" });
+      }
+
+      // A domain needs the entitlement on the workspace the project ends up in,
+      // whether it is being set or the project is moving with one.
+      const nextDomain = domain === undefined ? project.domain : domain;
+      const domainChanged = domain !== undefined && domain !== project.domain;
+      if (nextDomain && (domainChanged || planWorkspace.id !== project.workspaceId)) {
+        const denial = await checkEntitlement(planWorkspace, { feature: "customDomain" });
+        if (denial) {
+          return sendEntitlementDenied(res, denial);
+        }
+      }
+
+      const address = await checkProjectAddress(
+        { slug: slug !== project.slug ? slug : undefined, domain },
+        project.id
+      );
+      if ("status" in address) {
+        return res.status(address.status).json({ message: address.message });
+      }
+      Object.assign(updateData, address);
+
+      const contentChanged =
+        (generatedHtml !== undefined && generatedHtml !== project.generatedHtml) ||
+        (generatedCss !== undefined && generatedCss !== project.generatedCss);
+
+      if (contentChanged) {
+        await ensureInitialRevision(project);
+        const nextHtml = generatedHtml !== undefined ? generatedHtml : project.generatedHtml;
+        const nextCss = generatedCss !== undefined ? generatedCss : project.generatedCss;
+        if (nextHtml) {
+          Object.assign(updateData, sanitizeContent(nextHtml, nextCss));
+        }
+      }
+
+      const updated = await storage.updateProject(req.params.id, updateData);
+
+      if (access.asAdmin && updated) {
+        await recordAudit(req, {
+          action: "project.update",
+          targetType: "project",
+          targetId: project.id,
+          changes: diffRecords(project, updated, Object.keys(updateData)),
+          metadata: { ownerId: project.userId, workspaceId: project.workspaceId },
+        });
+      }
+
+      if (contentChanged && updated) {
+        await storage.createProjectRevision({
+          projectId: updated.id,
+          userId: req.user!.id,
+          source: "manual",
+          generatedHtml: updated.generatedHtml,
+          generatedCss: updated.generatedCss,
+        });
+      }
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Update project error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/projects/:id", authMiddleware, requireScope("projects:write"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "manage");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      await storage.deleteProject(req.params.id);
+
+      if (access.asAdmin) {
+        await recordAudit(req, {
+          action: "project.delete",
+          targetType: "project",
+          targetId: project.id,
+          changes: diffRecords(project, null, ["name", "slug", "status", "domain"]),
+          metadata: { ownerId: project.userId, workspaceId: project.workspaceId },
+        });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete project error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects/:id/sections", authMiddleware, requireScope("projects:read"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "read");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      const sections = parseSections(ensureSectionMarkers(project.generatedHtml || ""));
+      res.json(sections.map(({ name, tag, index, html }) => ({ name, tag, index, html })));
+    } catch (error) {
+      console.error("Get sections error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/projects/:id/sections/order", authMiddleware, requireScope("projects:write"), async (req: AuthRequest, res) => {
+    try {
+      const validatedData = reorderSectionsSchema.parse(req.body);
+
+      const access = await authorizeProject(req.user!, req.params.id, "write");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+      if (!project.generatedHtml) {
+        return res.status(400).json({ message: "Project has no generated website" });
+      }
+
+      let html: string;
+      try {
+        html = reorderSections(ensureSectionMarkers(project.generatedHtml), validatedData.order);
+      } catch (sectionError) {
+        return res.status(400).json({ message: (sectionError as Error).message });
+      }
+
+      const updated = await saveManualHtml(req.user!.id, project, html);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Reorder sections error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/projects/:id/sections", authMiddleware, requireScope("projects:write"), async (req: AuthRequest, res) => {
+    try {
+      const validatedData = insertSectionSchema.parse(req.body);
+
+      const access = await authorizeProject(req.user!, req.params.id, "write");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+      if (!project.generatedHtml) {
+        return res.status(400).json({ message: "Project has no generated website" });
+      }
+
+      const current = ensureSectionMarkers(project.generatedHtml);
+      let inserted: { html: string; name: string };
+      try {
+        inserted = insertSection(
+          current,
+          validatedData.html,
+          validatedData.position ?? parseSections(current).length,
+          validatedData.name
+        );
+      } catch (sectionError) {
+        return res.status(400).json({ message: (sectionError as Error).message });
+      }
+
+      const updated = await saveManualHtml(req.user!.id, project, inserted.html);
+      res.status(201).json({ project: updated, section: findSection(inserted.html, inserted.name) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Insert section error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/projects/:id/sections/:name", authMiddleware, requireScope("projects:write"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "write");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+      if (!project.generatedHtml) {
+        return res.status(400).json({ message: "Project has no generated website" });
+      }
+
+      const current = ensureSectionMarkers(project.generatedHtml);
+      if (!findSection(current, req.params.name)) {
+        return res.status(404).json({ message: "Section not found" });
+      }
+
+      const updated = await saveManualHtml(req.user!.id, project, removeSection(current, req.params.name));
+      res.json(updated);
+    } catch (error) {
+      console.error("Delete section error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects/:id/pages", authMiddleware, requireScope("projects:read"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "read");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      const pages = await storage.getPages(project.id);
+      res.json(pages.map(toPageSummary));
+    } catch (error) {
+      console.error("Get pages error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects/:id/pages/:pageId", authMiddleware, requireScope("projects:read"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "read");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      const page = await storage.getPage(project.id, req.params.pageId);
+      if (!page) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+      res.json(page);
+    } catch (error) {
+      console.error("Get page error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/projects/:id/pages", authMiddleware, requireScope("projects:write"), async (req: AuthRequest, res) => {
+    try {
+      const validatedData = createPageSchema.parse(req.body);
+
+      const access = await authorizeProject(req.user!, req.params.id, "write");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+      if (!project.generatedHtml) {
+        return res.status(400).json({ message: "Project has no generated website" });
+      }
+
+      const denial = await checkEntitlement(await projectWorkspace(project), { feature: "page", projectId: project.id });
+      if (denial) {
+        return sendEntitlementDenied(res, denial);
+      }
+
+      const resolved = await resolvePageSlug(project.id, validatedData.slug, validatedData.title);
+      if ("message" in resolved) {
+        return res.status(resolved.status).json({ message: resolved.message });
+      }
+
+      // Without HTML the page starts as a copy of the home page's layout
+      // with a single heading section.
+      const html = validatedData.html || buildPageDocument(
+        ensureSectionMarkers(project.generatedHtml),
+        `<section data-section="content"><h1>${validatedData.title.replace(/</g, "&lt;")}</h1></section>`
+      );
+      const { generatedHtml, sanitizationReport } = sanitizeContent(ensureSectionMarkers(html), null);
+
+      const page = await storage.createPage({
+        projectId: project.id,
+        slug: resolved.slug,
+        title: validatedData.title,
+        html: generatedHtml,
+        metaTitle: validatedData.metaTitle ?? null,
+        metaDescription: validatedData.metaDescription ?? null,
+        sanitizationReport,
+      });
+      res.status(201).json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Create page error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/projects/:id/pages/:pageId", authMiddleware, requireScope("projects:write"), async (req: AuthRequest, res) => {
+    try {
+      const validatedData = updatePageSchema.parse(req.body);
+
+      const access = await authorizeProject(req.user!, req.params.id, "write");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      const page = await storage.getPage(project.id, req.params.pageId);
+      if (!page) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+
+      const updateData: Partial<Page> = {};
+      if (validatedData.title !== undefined) updateData.title = validatedData.title;
+      if (validatedData.metaTitle !== undefined) updateData.metaTitle = validatedData.metaTitle;
+      if (validatedData.metaDescription !== undefined) updateData.metaDescription = validatedData.metaDescription;
+
+      if (validatedData.slug !== undefined && validatedData.slug !== page.slug) {
+        const resolved = await resolvePageSlug(project.id, validatedData.slug, page.title, page.id);
+        if ("message" in resolved) {
+          return res.status(resolved.status).json({ message: resolved.message });
+        }
+        updateData.slug = resolved.slug;
+      }
+
+      if (validatedData.html !== undefined && validatedData.html !== page.html) {
+        const { generatedHtml, sanitizationReport } = sanitizeContent(ensureSectionMarkers(validatedData.html), null);
+        updateData.html = generatedHtml;
+        updateData.sanitizationReport = sanitizationReport;
+      }
+
+      const updated = await storage.updatePage(page.id, updateData);
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Update page error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/projects/:id/pages/:pageId", authMiddleware, requireScope("projects:write"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "write");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      const page = await storage.getPage(project.id, req.params.pageId);
+      if (!page) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+
+      await storage.deletePage(page.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete page error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.put("/api/projects/:id/pages/order", authMiddleware, requireScope("projects:write"), async (req: AuthRequest, res) => {
+    try {
+      const validatedData = reorderPagesSchema.parse(req.body);
+
+      const access = await authorizeProject(req.user!, req.params.id, "write");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      const pages = await storage.getPages(project.id);
+      const ids = pages.map((page) => page.id);
+      const { order } = validatedData;
+      if (order.length !== ids.length || [...order].sort().join("\0") !== [...ids].sort().join("\0")) {
+        return res.status(400).json({ message: "Order must list every page exactly once" });
+      }
+
+      await storage.reorderPages(project.id, order);
+      const reordered = await storage.getPages(project.id);
+      res.json(reordered.map(toPageSummary));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Reorder pages error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects/:id/submissions", authMiddleware, requireScope("projects:read"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "read");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit || "50"), 10) || 50, 1), 200);
+      const offset = Math.max(parseInt(String(req.query.offset || "0"), 10) || 0, 0);
+      const inbox = await storage.getFormSubmissions(project.id, {
+        unreadOnly: req.query.unread === "true" || req.query.unread === "1",
+        limit,
+        offset,
+      });
+      res.json({ ...inbox, limit, offset });
+    } catch (error) {
+      console.error("Get submissions error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects/:id/submissions/export", authMiddleware, requireScope("projects:read"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "read");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      const { submissions } = await storage.getFormSubmissions(project.id);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${project.name.replace(/[^a-z0-9]/gi, '_')}_submissions.csv"`);
+      res.send(submissionsToCsv(submissions));
+    } catch (error) {
+      console.error("Export submissions error:", error);
+      res.status(500).json({ message: "Failed to export submissions" });
+    }
+  });
+
+  app.get("/api/projects/:id/submissions/:submissionId", authMiddleware, requireScope("projects:read"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "read");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      const submission = await storage.getFormSubmission(project.id, req.params.submissionId);
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+      res.json(submission);
+    } catch (error) {
+      console.error("Get submission error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/projects/:id/submissions/:submissionId", authMiddleware, requireScope("projects:write"), async (req: AuthRequest, res) => {
+    try {
+      const validatedData = updateSubmissionSchema.parse(req.body);
+
+      const access = await authorizeProject(req.user!, req.params.id, "write");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      const submission = await storage.getFormSubmission(project.id, req.params.submissionId);
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      const updated = await storage.updateFormSubmission(submission.id, { isRead: validatedData.isRead });
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Update submission error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.delete("/api/projects/:id/submissions/:submissionId", authMiddleware, requireScope("projects:write"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "write");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      const submission = await storage.getFormSubmission(project.id, req.params.submissionId);
+      if (!submission) {
+        return res.status(404).json({ message: "Submission not found" });
+      }
+
+      await storage.deleteFormSubmission(submission.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete submission error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects/:id/analytics", authMiddleware, requireScope("projects:read"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "read");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      const report = await storage.getProjectAnalytics(project.id, analyticsSince(req.query.days));
+      res.json(report);
+    } catch (error) {
+      console.error("Get project analytics error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects/:id/revisions", authMiddleware, requireScope("projects:read"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "read");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      const revisions = await storage.getProjectRevisions(project.id);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Get revisions error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects/:id/revisions/:revisionId", authMiddleware, requireScope("projects:read"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "read");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      const revision = await storage.getProjectRevision(project.id, req.params.revisionId);
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      res.json(revision);
+    } catch (error) {
+      console.error("Get revision error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/projects/:id/revisions/:revisionId/preview", authMiddleware, requireScope("projects:read"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "read");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      const revision = await storage.getProjectRevision(project.id, req.params.revisionId);
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      if (!revision.generatedHtml) {
+        return res.status(400).json({ message: "Revision has no generated website" });
+      }
+
+      setSiteSecurityHeaders(res);
+      res.setHeader("Content-Type", "text/html");
+      res.send(renderSiteHtml(revision.generatedHtml, revision.generatedCss));
+    } catch (error) {
+      console.error("Revision preview error:", error);
+      res.status(500).json({ message: "Failed to load preview" });
+    }
+  });
+
+  app.post("/api/projects/:id/revisions/:revisionId/restore", authMiddleware, requireScope("projects:write"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "write");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      const revision = await storage.getProjectRevision(project.id, req.params.revisionId);
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      await ensureInitialRevision(project);
+
+      const content = revision.generatedHtml
+        ? sanitizeContent(revision.generatedHtml, revision.generatedCss)
+        : { generatedHtml: revision.generatedHtml, generatedCss: revision.generatedCss, sanitizationReport: null };
+
+      const updated = await storage.updateProject(project.id, content);
+
+      const restored = await storage.createProjectRevision({
+        projectId: project.id,
+        userId: req.user!.id,
+        source: "restore",
+        restoredFromId: revision.id,
+        generatedHtml: content.generatedHtml,
+        generatedCss: content.generatedCss,
+      });
+
+      res.json({
+        project: updated,
+        revision: restored,
+        message: "Revision restored successfully!",
+      });
+    } catch (error) {
+      console.error("Restore revision error:", error);
+      res.status(500).json({ message: "Failed to restore revision" });
+    }
+  });
+
+  app.get("/api/plans", (req, res) => {
+    res.json(Object.values(PLAN_CATALOG));
+  });
+
+  app.get("/api/templates", async (req, res) => {
+    try {
+      const templateList = await storage.getTemplates();
+      res.json(templateList.map(({ html, css, ...summary }) => summary));
+    } catch (error) {
+      console.error("Get templates error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/templates/:id", async (req, res) => {
+    try {
+      const template = await storage.getTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+      const { html, css, ...summary } = template;
+      res.json(summary);
+    } catch (error) {
+      console.error("Get template error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // The template's HTML and CSS. Premium templates need the workspace named
+  // by `?workspaceId=` (or the personal workspace) to be on a paid plan.
+  app.get("/api/templates/:id/content", authMiddleware, requireScope("projects:read"), async (req: AuthRequest, res) => {
+    try {
+      const template = await storage.getTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      if (template.isPremium && req.user!.role !== "ADMIN") {
+        const access = await resolveUsageWorkspace(req);
+        if ("status" in access) {
+          return res.status(access.status).json({ message: access.message });
+        }
+        const denial = await checkEntitlement(access.workspace, { feature: "premiumTemplate" });
+        if (denial) {
+          return sendEntitlementDenied(res, denial);
+        }
+      }
+
+      res.json(template);
+    } catch (error) {
+      console.error("Get template content error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/media", authMiddleware, requireScope("media:read"), async (req: AuthRequest, res) => {
+    try {
+      const workspaceId = typeof req.query.workspaceId === "string" ? req.query.workspaceId : undefined;
+      if (workspaceId) {
+        const access = await authorizeWorkspace(req.user!, workspaceId, "read");
+        if ("status" in access) {
+          return res.status(access.status).json({ message: access.message });
+        }
+      }
+
+      const mediaList = await storage.getMedia(req.user!.id, workspaceId);
+      res.json(mediaList);
+    } catch (error) {
+      console.error("Get media error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/media", authMiddleware, requireScope("media:write"), (req, res, next) => {
+    upload.single("file")(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError) {
+        const status = err.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+        return res.status(status).json({ message: err.code === "LIMIT_FILE_SIZE" ? "File is too large" : err.message });
+      }
+      if (err) return next(err);
+      next();
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      const file = req.file;
+      if (!file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const requestedWorkspace = req.body?.workspaceId || req.query.workspaceId;
+      const target = await resolveTargetWorkspace(
+        req.user!,
+        typeof requestedWorkspace === "string" ? requestedWorkspace : undefined
+      );
+      if ("status" in target) {
+        return res.status(target.status).json({ message: target.message });
+      }
+      const { workspace } = target;
+      const user = req.user!;
+
+      const denial = await checkEntitlement(workspace, { feature: "upload", size: file.size });
+      if (denial) {
+        return sendEntitlementDenied(res, denial);
+      }
+
+      const mimeType = sniffMimeType(file.buffer);
+      if (!mimeType) {
+        return res.status(415).json({ message: "Unsupported file type" });
+      }
+
+      const key = buildMediaKey(user.id, mimeType);
+      await mediaStorage.put(key, file.buffer, mimeType);
+
+      const mediaItem = await storage.createMedia({
+        name: file.originalname,
+        url: mediaStorage.getUrl(key),
+        storageKey: key,
+        type: mimeType,
+        size: file.size,
+        userId: user.id,
+        workspaceId: workspace.id,
+      });
+
+      res.status(201).json(mediaItem);
+    } catch (error) {
+      console.error("Upload media error:", error);
+      res.status(500).json({ message: "Failed to upload file" });
+    }
+  });
+
+  app.delete("/api/media/:id", authMiddleware, requireScope("media:write"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeMedia(req.user!, req.params.id, "write");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const mediaItem = access.media;
+
+      if (mediaItem.storageKey) {
+        try {
+          await mediaStorage.delete(mediaItem.storageKey);
+        } catch (storageError) {
+          console.error("Media storage delete error:", storageError);
+        }
+      }
+
+      await storage.deleteMedia(mediaItem.id);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Delete media error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/stats", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const stats = await storage.getAdminStats();
+      res.json(stats);
+    } catch (error) {
+      console.error("Get admin stats error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/users", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const { cursor, ...filter } = adminUserQuerySchema.parse(req.query);
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit || "50"), 10) || 50, 1), 200);
+      const after = cursor ? decodeCursor(cursor, 2) : undefined;
+      if (after === null) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      const page = await storage.searchUsers(filter, { limit, after });
+      res.json({ ...page, limit });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Get users error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/admin/users/:id", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const personalWorkspace = await storage.ensurePersonalWorkspace(user);
+      const [workspaces, projects, aiUsage, aiHistory] = await Promise.all([
+        storage.getUserWorkspaces(user.id),
+        storage.getProjects(user.id),
+        storage.getAiUsage(personalWorkspace.id),
+        storage.getAiGenerations(user.id, { limit: 20 }),
+      ]);
+
+      res.json({
+        user: stripPassword(user),
+        personalWorkspaceId: personalWorkspace.id,
+        workspaces,
+        projects,
+        aiUsage,
+        aiHistory: { entries: aiHistory.entries.map(withEstimatedCostUsd), total: aiHistory.total },
+      });
+    } catch (error) {
+      console.error("Get user detail error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/users/:id/suspend", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const { reason } = suspendUserSchema.parse(req.body);
+      if (req.params.id === req.user!.id) {
+        return res.status(400).json({ message: "Cannot suspend yourself" });
+      }
+
+      const existing = await storage.getUser(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (existing.suspendedAt) {
+        return res.status(409).json({ message: "User is already suspended" });
+      }
+
+      const updated = await storage.suspendUser(existing.id, reason || null);
+      if (!updated) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      await storage.revokeUserRefreshTokens(existing.id);
+
+      await recordAudit(req, {
+        action: "user.suspend",
+        targetType: "user",
+        targetId: updated.id,
+        changes: diffRecords(existing, updated, ["suspendedAt", "suspendedReason"]),
+        metadata: { email: updated.email },
+      });
+
+      res.json(updated);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Suspend user error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.post("/api/admin/users/:id/reactivate", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const existing = await storage.getUser(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (!existing.suspendedAt) {
+        return res.status(409).json({ message: "User is not suspended" });
+      }
+
+      const updated = await storage.reactivateUser(existing.id);
+      if (!updated) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await recordAudit(req, {
+        action: "user.reactivate",
+        targetType: "user",
+        targetId: updated.id,
+        changes: diffRecords(existing, updated, ["suspendedAt", "suspendedReason"]),
+        metadata: { email: updated.email },
+      });
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Reactivate user error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Grants or takes away AI credits in the user's personal workspace for the
+  // current billing period.
+  app.post("/api/admin/users/:id/credits", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const { amount, reason } = adjustAiCreditsSchema.parse(req.body);
+
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const workspace = await storage.ensurePersonalWorkspace(user);
+      const before = await storage.getAiUsage(workspace.id);
+      const entry = await storage.adjustAiCredits({
+        workspaceId: workspace.id,
+        userId: req.user!.id,
+        amount,
+        description: reason,
+      });
+      const usage = await storage.getAiUsage(workspace.id);
+
+      await recordAudit(req, {
+        action: "credits.adjust",
+        targetType: "workspace",
+        targetId: workspace.id,
+        changes: diffRecords(before, usage, ["used", "remaining"]),
+        metadata: { userId: user.id, email: user.email, amount, reason, entryId: entry.id },
+      });
+
+      res.status(201).json({ entry, usage });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Adjust credits error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Sets the plan of the user's personal workspace by hand, e.g. for invoiced
+  // customers. Stripe webhooks still overwrite it when the subscription changes.
+  app.patch("/api/admin/users/:id/plan", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const { planType, status } = updateUserPlanSchema.parse(req.body);
+
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const workspace = await storage.ensurePersonalWorkspace(user);
+      await storage.updateSubscription(workspace.id, planType, status || (planType === "free" ? "free" : "active"));
+      await auditSubscriptionChange(req, workspace, { source: "admin", userId: user.id, email: user.email });
+
+      res.json(await storage.getSubscriptionStatus(workspace.id));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Update user plan error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  // Scrambles the password and ends every session, then emails the user a
+  // reset link, e.g. when the account looks compromised.
+  app.post("/api/admin/users/:id/password-reset", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const user = await storage.getUser(req.params.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const emailSent = await forcePasswordReset(user);
+
+      await recordAudit(req, {
+        action: "user.password_reset",
+        targetType: "user",
+        targetId: user.id,
+        metadata: { email: user.email, emailSent },
+      });
+
+      res.json({
+        message: emailSent
+          ? "The user has been signed out and sent a link to reset their password."
+          : "The user has been signed out, but the reset email couldn't be sent. They can request a new link from the login page.",
+        emailSent,
+      });
+    } catch (error) {
+      console.error("Force password reset error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  const updateRoleSchema = z.object({
+    role: z.enum(["ADMIN", "CLIENT"]),
+  });
+
+  app.patch("/api/admin/users/:id/role", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const validatedData = updateRoleSchema.parse(req.body);
+
+      const existing = await storage.getUser(req.params.id);
+      const updated = existing && await storage.updateUserRole(existing.id, validatedData.role);
+      if (!existing || !updated) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      const updateData = insertProjectSchema.partial().parse(req.body);
-      const updated = await storage.updateProject(req.params.id, updateData);
+      await recordAudit(req, {
+        action: "user.role_change",
+        targetType: "user",
+        targetId: updated.id,
+        changes: diffRecords(existing, updated, ["role"]),
+        metadata: { email: updated.email },
+      });
+
       res.json(updated);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
       }
-      console.error("Update project error:", error);
+      console.error("Update user role error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.delete("/api/projects/:id", authMiddleware, async (req: AuthRequest, res) => {
+  app.delete("/api/admin/users/:id", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
     try {
-      const project = await storage.getProject(req.params.id);
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
+      if (req.params.id === req.user!.id) {
+        return res.status(400).json({ message: "Cannot delete yourself" });
       }
-      if (project.userId !== req.user!.id && req.user!.role !== "ADMIN") {
-        return res.status(403).json({ message: "Access denied" });
+
+      const existing = await storage.getUser(req.params.id);
+      if (!existing || !(await storage.deleteUser(existing.id))) {
+        return res.status(404).json({ message: "User not found" });
       }
 
-      await storage.deleteProject(req.params.id);
+      await recordAudit(req, {
+        action: "user.delete",
+        targetType: "user",
+        targetId: existing.id,
+        changes: diffRecords(existing, null, ["email", "name", "role"]),
+      });
       res.status(204).send();
     } catch (error) {
-      console.error("Delete project error:", error);
+      console.error("Delete user error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.get("/api/templates", async (req, res) => {
+  app.get("/api/admin/lockouts", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
     try {
-      const templateList = await storage.getTemplates();
-      res.json(templateList);
+      const lockouts = await storage.getActiveLoginLockouts();
+      res.json(lockouts);
     } catch (error) {
-      console.error("Get templates error:", error);
+      console.error("Get lockouts error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.get("/api/media", authMiddleware, async (req: AuthRequest, res) => {
+  app.delete("/api/admin/lockouts/:id", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
     try {
-      const mediaList = await storage.getMedia(req.user!.id);
-      res.json(mediaList);
+      const deleted = await storage.deleteLoginThrottle(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ message: "Lockout not found" });
+      }
+
+      await recordAudit(req, {
+        action: "lockout.clear",
+        targetType: "lockout",
+        targetId: deleted.id,
+        changes: diffRecords(deleted, null, ["failureCount", "lockedUntil"]),
+        metadata: { scope: deleted.scope, identifier: deleted.identifier },
+      });
+      res.status(204).send();
     } catch (error) {
-      console.error("Get media error:", error);
+      console.error("Clear lockout error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.get("/api/admin/stats", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  app.get("/api/admin/audit", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
     try {
-      const stats = await storage.getAdminStats();
-      res.json(stats);
+      const filter = auditLogQuerySchema.parse(req.query);
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit || "50"), 10) || 50, 1), 200);
+      const offset = Math.max(parseInt(String(req.query.offset || "0"), 10) || 0, 0);
+
+      const log = await storage.getAuditLogs(filter, { limit, offset });
+      res.json({ ...log, limit, offset });
     } catch (error) {
-      console.error("Get admin stats error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Get audit log error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.get("/api/admin/users", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  app.get("/api/admin/ai-usage", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
     try {
-      const allUsers = await storage.getAllUsers();
-      res.json(allUsers);
+      const { groupBy, ...filter } = aiUsageReportQuerySchema.parse(req.query);
+      const rows = await storage.getAiUsageReport(groupBy, filter);
+      res.json({ groupBy, ...filter, ...summarizeAiUsage(rows) });
     } catch (error) {
-      console.error("Get users error:", error);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Get AI usage report error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  const updateRoleSchema = z.object({
-    role: z.enum(["ADMIN", "CLIENT"]),
+  app.get("/api/admin/audit/export", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const filter = auditLogQuerySchema.parse(req.query);
+      const { entries } = await storage.getAuditLogs(filter, { limit: MAX_AUDIT_EXPORT_ROWS });
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="audit_log_${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.send(auditLogsToCsv(entries));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Export audit log error:", error);
+      res.status(500).json({ message: "Failed to export audit log" });
+    }
   });
 
-  app.patch("/api/admin/users/:id/role", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  app.post("/api/admin/templates", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
     try {
-      const validatedData = updateRoleSchema.parse(req.body);
+      const validatedData = insertTemplateSchema.parse(req.body);
+      const { html, css } = validatedData as Partial<Template>;
 
-      const updated = await storage.updateUserRole(req.params.id, validatedData.role);
-      if (!updated) {
-        return res.status(404).json({ message: "User not found" });
+      const template = await storage.createTemplate({
+        ...validatedData,
+        ...sanitizeTemplateContent(html, css),
+      });
+      res.status(201).json(template);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Create template error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.patch("/api/admin/templates/:id", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+    try {
+      const template = await storage.getTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      const updateData = insertTemplateSchema.partial().parse(req.body) as Partial<Template>;
+      if (updateData.html !== undefined || updateData.css !== undefined) {
+        Object.assign(updateData, sanitizeTemplateContent(
+          updateData.html !== undefined ? updateData.html : template.html,
+          updateData.css !== undefined ? updateData.css : template.css
+        ));
       }
 
+      const updated = await storage.updateTemplate(template.id, updateData);
       res.json(updated);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: error.errors[0].message });
       }
-      console.error("Update user role error:", error);
+      console.error("Update template error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.delete("/api/admin/users/:id", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
+  app.delete("/api/admin/templates/:id", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
     try {
-      if (req.params.id === req.user!.id) {
-        return res.status(400).json({ message: "Cannot delete yourself" });
+      const template = await storage.getTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
       }
 
-      const deleted = await storage.deleteUser(req.params.id);
-      if (!deleted) {
-        return res.status(404).json({ message: "User not found" });
+      if (template.thumbnailKey) {
+        try {
+          await mediaStorage.delete(template.thumbnailKey);
+        } catch (storageError) {
+          console.error("Template thumbnail delete error:", storageError);
+        }
       }
 
+      await storage.deleteTemplate(template.id);
       res.status(204).send();
     } catch (error) {
-      console.error("Delete user error:", error);
+      console.error("Delete template error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
+  app.post("/api/admin/templates/:id/thumbnail", authMiddleware, adminMiddleware, (req, res, next) => {
+    upload.single("file")(req, res, (err: unknown) => {
+      if (err instanceof multer.MulterError) {
+        const status = err.code === "LIMIT_FILE_SIZE" ? 413 : 400;
+        return res.status(status).json({ message: err.code === "LIMIT_FILE_SIZE" ? "File is too large" : err.message });
+      }
+      if (err) return next(err);
+      next();
+    });
+  }, async (req: AuthRequest, res) => {
+    try {
+      const file = req.file;
+      if (!file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const template = await storage.getTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Template not found" });
+      }
+
+      const mimeType = sniffMimeType(file.buffer);
+      if (!mimeType || !mimeType.startsWith("image/")) {
+        return res.status(415).json({ message: "Thumbnail must be an image" });
+      }
+
+      const key = buildMediaKey(`templates/${template.id}`, mimeType);
+      await mediaStorage.put(key, file.buffer, mimeType);
+
+      const updated = await storage.updateTemplate(template.id, {
+        thumbnail: mediaStorage.getUrl(key),
+        thumbnailKey: key,
+      });
+
+      if (template.thumbnailKey) {
+        try {
+          await mediaStorage.delete(template.thumbnailKey);
+        } catch (storageError) {
+          console.error("Template thumbnail delete error:", storageError);
+        }
+      }
+
+      res.json(updated);
+    } catch (error) {
+      console.error("Upload template thumbnail error:", error);
+      res.status(500).json({ message: "Failed to upload thumbnail" });
+    }
+  });
+
   app.get("/api/admin/analytics", authMiddleware, adminMiddleware, async (req: AuthRequest, res) => {
     try {
       const stats = await storage.getAdminStats();
+      const analytics = await storage.getPlatformAnalytics(analyticsSince(req.query.days));
       res.json({
         ...stats,
-        pageViews: 45234,
-        avgSessionDuration: "4m 32s",
-        conversionRate: "4.2%",
+        ...analytics,
+        pagesPerVisitor: analytics.visitors > 0 ? Number((analytics.pageViews / analytics.visitors).toFixed(2)) : 0,
       });
     } catch (error) {
       console.error("Get analytics error:", error);
@@ -296,74 +2485,135 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/ai/usage", authMiddleware, async (req: AuthRequest, res) => {
+  app.get("/api/ai/usage", authMiddleware, requireScope("account:read"), async (req: AuthRequest, res) => {
     try {
-      const usage = await storage.getAiUsage(req.user!.id);
-      const subscription = await storage.getSubscriptionStatus(req.user!.id);
-      res.json({ ...usage, ...subscription });
+      const access = await resolveUsageWorkspace(req);
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+
+      const usage = await storage.getAiUsage(access.workspace.id);
+      const subscription = await storage.getSubscriptionStatus(access.workspace.id);
+      res.json({ ...usage, ...subscription, workspaceId: access.workspace.id });
     } catch (error) {
       console.error("Get AI usage error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.get("/api/subscription", authMiddleware, async (req: AuthRequest, res) => {
+  app.get("/api/ai/ledger", authMiddleware, requireScope("account:read"), async (req: AuthRequest, res) => {
+    try {
+      const access = await resolveUsageWorkspace(req);
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit || "50"), 10) || 50, 1), 200);
+      const offset = Math.max(parseInt(String(req.query.offset || "0"), 10) || 0, 0);
+      const ledger = await storage.getAiCreditLedger(access.workspace.id, { limit, offset });
+      const usage = await storage.getAiUsage(access.workspace.id);
+      res.json({ ...ledger, usage, workspaceId: access.workspace.id, limit, offset });
+    } catch (error) {
+      console.error("Get AI ledger error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/ai/history", authMiddleware, requireScope("account:read"), async (req: AuthRequest, res) => {
+    try {
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit || "50"), 10) || 50, 1), 200);
+      const offset = Math.max(parseInt(String(req.query.offset || "0"), 10) || 0, 0);
+      const { entries, total } = await storage.getAiGenerations(req.user!.id, { limit, offset });
+      res.json({ entries: entries.map(withEstimatedCostUsd), total, limit, offset });
+    } catch (error) {
+      console.error("Get AI history error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/subscription", authMiddleware, requireScope("account:read"), async (req: AuthRequest, res) => {
     try {
-      const subscription = await storage.getSubscriptionStatus(req.user!.id);
-      res.json(subscription);
+      const access = await resolveUsageWorkspace(req);
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+
+      const subscription = await storage.getSubscriptionStatus(access.workspace.id);
+      res.json({ ...subscription, workspaceId: access.workspace.id });
     } catch (error) {
       console.error("Get subscription error:", error);
       res.status(500).json({ message: "Internal server error" });
     }
   });
 
-  app.post("/api/ai/generate", authMiddleware, async (req: AuthRequest, res) => {
+  app.post("/api/billing/webhook", async (req, res) => {
+    const event = verifyWebhookSignature(
+      req.rawBody as Buffer,
+      req.headers["stripe-signature"] as string | undefined
+    );
+    if (!event) {
+      return res.status(400).json({ message: "Invalid webhook signature" });
+    }
+
+    try {
+      // A failure rolls back the event's record, so Stripe's redelivery is
+      // handled again.
+      const handled = await storage.processWebhookEventOnce(event.id, event.type, () => handleBillingEvent(event));
+      if (!handled) {
+        return res.json({ received: true, duplicate: true });
+      }
+
+      res.json({ received: true });
+    } catch (error) {
+      console.error("Billing webhook error:", error);
+      res.status(500).json({ message: "Failed to process webhook" });
+    }
+  });
+
+  app.post("/api/ai/generate", authMiddleware, requireScope("ai:generate"), verifiedEmailMiddleware, rateLimit("ai"), aiConcurrencyLimit, async (req: AuthRequest, res) => {
     try {
       const validatedData = aiGenerateSchema.parse(req.body);
-      
-      const subscription = await storage.getSubscriptionStatus(req.user!.id);
-      
-      if (subscription.isBlocked) {
-        return res.status(402).json({
-          message: "Your subscription requires payment. Please upgrade to continue using AI features.",
-          requiresPayment: true,
-          subscription
-        });
+
+      const target = await resolveTargetWorkspace(req.user!, validatedData.workspaceId);
+      if ("status" in target) {
+        return res.status(target.status).json({ message: target.message });
       }
+      const workspaceId = target.workspace.id;
 
-      if (!subscription.canUseAi) {
-        return res.status(403).json({ 
-          message: "AI generation limit reached. Upgrade your plan for unlimited generations.",
-          requiresUpgrade: true,
-          subscription
-        });
+      const resolvedModel = await resolveModel(target.workspace, validatedData.model);
+      if ("status" in resolvedModel) {
+        return sendEntitlementDenied(res, resolvedModel);
       }
 
-      const usage = await storage.getAiUsage(req.user!.id);
+      const reserved = await reserveCredit(workspaceId, {
+        userId: req.user!.id,
+        operation: "content_generate",
+        description: `${validatedData.type} content`,
+      });
+      if ("status" in reserved) {
+        const { status, ...body } = reserved;
+        return res.status(status).json({ ...body, subscription: await storage.getSubscriptionStatus(workspaceId) });
+      }
 
       let result: string;
       let tokensUsed: number;
       
       try {
-        result = `Generated content for: ${validatedData.prompt}. This is a placeholder - connect OpenAI API for real AI generation.`;
-        tokensUsed = Math.floor(validatedData.prompt.length * 1.5);
+        ({ result, tokensUsed } = await generateContent(validatedData.prompt, validatedData.type, {
+          userId: req.user!.id,
+          workspaceId,
+        }, resolvedModel.model));
       } catch (aiError) {
         console.error("AI provider error:", aiError);
+        await refundCredit(reserved.creditId, refundReason(aiError));
         return res.status(503).json({ 
           message: "AI service temporarily unavailable. Please try again. Your credits were not used." 
         });
       }
 
-      const canIncrement = await storage.incrementAiUsage(req.user!.id);
-      if (!canIncrement) {
-        return res.status(403).json({ 
-          message: "AI generation limit reached. Upgrade your plan for more generations." 
-        });
-      }
-
-      await storage.logAiGeneration(req.user!.id, validatedData.prompt, result, tokensUsed);
+      await commitCredit(reserved.creditId);
       
-      const updatedUsage = await storage.getAiUsage(req.user!.id);
+      const updatedUsage = await storage.getAiUsage(workspaceId);
       
       res.json({ 
         result,
@@ -379,59 +2629,57 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/website/generate", authMiddleware, async (req: AuthRequest, res) => {
+  app.post("/api/website/generate", authMiddleware, requireScope("ai:generate"), verifiedEmailMiddleware, rateLimit("ai"), aiConcurrencyLimit, async (req: AuthRequest, res) => {
     try {
       const validatedData = websiteGenerateSchema.parse(req.body);
-      
-      const subscription = await storage.getSubscriptionStatus(req.user!.id);
-      
-      if (subscription.isBlocked) {
-        return res.status(402).json({
-          message: "Your subscription requires payment. Please upgrade to continue.",
-          requiresPayment: true,
-        });
+
+      const target = await resolveTargetWorkspace(req.user!, validatedData.workspaceId);
+      if ("status" in target) {
+        return res.status(target.status).json({ message: target.message });
       }
+      const workspaceId = target.workspace.id;
 
-      if (!subscription.canUseAi) {
-        return res.status(403).json({ 
-          message: "AI generation limit reached. Upgrade your plan for unlimited generations.",
-          requiresUpgrade: true,
-        });
+      const denial = await checkEntitlement(target.workspace, { feature: "project" });
+      if (denial) {
+        return sendEntitlementDenied(res, denial);
+      }
+      const resolvedModel = await resolveModel(target.workspace, validatedData.model);
+      if ("status" in resolvedModel) {
+        return sendEntitlementDenied(res, resolvedModel);
       }
 
-      console.log("Generating website for:", validatedData.businessName);
-      
-      const generated = await generateWebsite({
-        businessName: validatedData.businessName,
-        businessType: validatedData.businessType,
-        description: validatedData.description,
-        primaryColor: validatedData.primaryColor,
-        sections: validatedData.sections,
-      });
+      let template: Template | undefined;
+      if (validatedData.templateId) {
+        const resolved = await resolveTemplate(validatedData.templateId, target.workspace);
+        if ("message" in resolved) {
+          const { status, ...body } = resolved;
+          return res.status(status).json(body);
+        }
+        template = resolved.template;
+      }
 
-      const project = await storage.createProject({
-        name: validatedData.businessName,
-        description: validatedData.description,
+      const reserved = await reserveCredit(workspaceId, {
         userId: req.user!.id,
-        templateId: null,
-        status: "draft",
-        generatedHtml: generated.html,
-        generatedCss: generated.css,
-        businessType: validatedData.businessType,
-        primaryColor: validatedData.primaryColor,
-      });
-
-      await storage.incrementAiUsage(req.user!.id);
-      await storage.logAiGeneration(
-        req.user!.id, 
-        `Website: ${validatedData.businessName} - ${validatedData.businessType}`, 
-        "Website generated successfully",
-        2000
+        operation: "website_generate",
+        description: validatedData.businessName,
+      });
+      if ("status" in reserved) {
+        return sendCreditDenied(res, reserved);
+      }
+
+      console.log("Queueing website generation for:", validatedData.businessName);
+
+      const job = await enqueueJob(
+        req.user!.id,
+        "website_generate",
+        { ...buildGenerationRequest(validatedData, template, resolvedModel.model), workspaceId },
+        reserved.creditId
       );
-      
-      res.status(201).json({ 
-        project,
-        message: "Website generated successfully!",
+
+      res.status(202).json({
+        jobId: job.id,
+        status: job.status,
+        message: "Website generation queued",
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -442,47 +2690,168 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/website/regenerate", authMiddleware, async (req: AuthRequest, res) => {
+  app.post("/api/website/generate/stream", authMiddleware, requireScope("ai:generate"), verifiedEmailMiddleware, rateLimit("ai"), aiConcurrencyLimit, async (req: AuthRequest, res) => {
+    let validatedData: WebsiteGenerateInput;
+    let template: Template | undefined;
+    let workspaceId: string;
+    let model: string | undefined;
+    let creditId: string;
+    try {
+      validatedData = websiteGenerateSchema.parse(req.body);
+
+      const target = await resolveTargetWorkspace(req.user!, validatedData.workspaceId);
+      if ("status" in target) {
+        return res.status(target.status).json({ message: target.message });
+      }
+      workspaceId = target.workspace.id;
+
+      const denial = await checkEntitlement(target.workspace, { feature: "project" });
+      if (denial) {
+        return sendEntitlementDenied(res, denial);
+      }
+      const resolvedModel = await resolveModel(target.workspace, validatedData.model);
+      if ("status" in resolvedModel) {
+        return sendEntitlementDenied(res, resolvedModel);
+      }
+      model = resolvedModel.model;
+
+      if (validatedData.templateId) {
+        const resolved = await resolveTemplate(validatedData.templateId, target.workspace);
+        if ("message" in resolved) {
+          const { status, ...body } = resolved;
+          return res.status(status).json(body);
+        }
+        template = resolved.template;
+      }
+
+      const reserved = await reserveCredit(workspaceId, {
+        userId: req.user!.id,
+        operation: "website_generate",
+        description: validatedData.businessName,
+      });
+      if ("status" in reserved) {
+        return sendCreditDenied(res, reserved);
+      }
+      creditId = reserved.creditId;
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Website generation error:", error);
+      return res.status(500).json({ message: "Internal server error" });
+    }
+
+    res.status(200);
+    res.setHeader("Content-Type", "text/event-stream");
+    res.setHeader("Cache-Control", "no-cache, no-transform");
+    res.setHeader("Connection", "keep-alive");
+    res.setHeader("X-Accel-Buffering", "no");
+    res.flushHeaders();
+
+    const sendEvent = (event: string, data: Record<string, unknown>) => {
+      if (res.writableEnded) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // Aborting the upstream completion on disconnect refunds the reserved
+    // credit, so a user who closes the tab or refreshes is never charged for
+    // the abandoned generation.
+    const abortController = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) {
+        abortController.abort();
+      }
+    });
+
+    let lastReportedBytes = 0;
+
+    try {
+      sendEvent("queued", { businessName: validatedData.businessName });
+
+      const generationRequest = buildGenerationRequest(validatedData, template, model);
+
+      const project = await spendCredit(creditId, async () => {
+        const generated = await generateWebsite(generationRequest, { userId: req.user!.id, workspaceId }, {
+          signal: abortController.signal,
+          onProgress: (receivedBytes) => {
+            if (receivedBytes - lastReportedBytes >= 1024) {
+              lastReportedBytes = receivedBytes;
+              sendEvent("streaming", { receivedBytes });
+            }
+          },
+          onParsing: () => sendEvent("parsing", {}),
+        });
+
+        if (abortController.signal.aborted) {
+          throw new Error("Generation cancelled by the client");
+        }
+
+        sendEvent("saving", {});
+        return saveGeneratedWebsite(req.user!.id, workspaceId, generationRequest, generated);
+      }, (saved) => saved.id);
+
+      sendEvent("done", { project, message: "Website generated successfully!" });
+      res.end();
+    } catch (error) {
+      if (abortController.signal.aborted) {
+        console.log("Website generation cancelled by client:", validatedData.businessName);
+        return;
+      }
+      console.error("Website generation error:", error);
+      sendEvent("error", { message: error instanceof Error ? error.message : "Failed to generate website" });
+      res.end();
+    }
+  });
+
+  app.post("/api/website/regenerate", authMiddleware, requireScope("ai:generate"), verifiedEmailMiddleware, rateLimit("ai"), aiConcurrencyLimit, async (req: AuthRequest, res) => {
     try {
       const validatedData = websiteRegenerateSchema.parse(req.body);
       
-      const project = await storage.getProject(validatedData.projectId);
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-      if (project.userId !== req.user!.id) {
-        return res.status(403).json({ message: "Access denied" });
+      const access = await authorizeProject(req.user!, validatedData.projectId, "write");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
       }
+      const { project } = access;
 
-      if (!project.generatedHtml || !project.generatedCss) {
+      if (!project.generatedHtml) {
         return res.status(400).json({ message: "Project has no generated website" });
       }
 
-      const subscription = await storage.getSubscriptionStatus(req.user!.id);
-      if (!subscription.canUseAi) {
-        return res.status(403).json({ 
-          message: "AI generation limit reached. Upgrade for more.",
-          requiresUpgrade: true,
+      const sections = parseSections(ensureSectionMarkers(project.generatedHtml));
+      if (!sections.some((section) => section.name === validatedData.sectionName)) {
+        return res.status(400).json({
+          message: `Section "${validatedData.sectionName}" not found`,
+          sections: sections.map((section) => section.name),
         });
       }
 
-      const regenerated = await regenerateSection(
-        project.generatedHtml,
-        project.generatedCss,
-        validatedData.sectionName,
-        validatedData.instructions
-      );
+      const workspace = await projectWorkspace(project);
+      const resolvedModel = await resolveModel(workspace, validatedData.model);
+      if ("status" in resolvedModel) {
+        return sendEntitlementDenied(res, resolvedModel);
+      }
 
-      const updated = await storage.updateProject(validatedData.projectId, {
-        generatedHtml: regenerated.html,
-        generatedCss: regenerated.css,
+      const reserved = await reserveCredit(workspace.id, {
+        userId: req.user!.id,
+        operation: "section_regenerate",
+        projectId: project.id,
+        description: `Section "${validatedData.sectionName}"`,
       });
+      if ("status" in reserved) {
+        return sendCreditDenied(res, reserved);
+      }
 
-      await storage.incrementAiUsage(req.user!.id);
-      
-      res.json({ 
-        project: updated,
-        message: "Section regenerated successfully!",
+      const job = await enqueueJob(req.user!.id, "website_regenerate", {
+        projectId: project.id,
+        sectionName: validatedData.sectionName,
+        instructions: validatedData.instructions,
+        model: resolvedModel.model,
+      }, reserved.creditId);
+
+      res.status(202).json({
+        jobId: job.id,
+        status: job.status,
+        message: "Section regeneration queued",
       });
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -493,25 +2862,128 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/website/:id/preview", authMiddleware, async (req: AuthRequest, res) => {
+  app.post("/api/website/pages/generate", authMiddleware, requireScope("ai:generate"), verifiedEmailMiddleware, rateLimit("ai"), aiConcurrencyLimit, async (req: AuthRequest, res) => {
     try {
-      const project = await storage.getProject(req.params.id);
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
+      const validatedData = pageGenerateSchema.parse(req.body);
+
+      const access = await authorizeProject(req.user!, validatedData.projectId, "write");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      if (!project.generatedHtml) {
+        return res.status(400).json({ message: "Project has no generated website" });
+      }
+
+      const resolved = await resolvePageSlug(project.id, validatedData.slug, validatedData.title);
+      if ("message" in resolved) {
+        return res.status(resolved.status).json({ message: resolved.message });
+      }
+
+      const workspace = await projectWorkspace(project);
+      const denial = await checkEntitlement(workspace, { feature: "page", projectId: project.id });
+      if (denial) {
+        return sendEntitlementDenied(res, denial);
+      }
+      const resolvedModel = await resolveModel(workspace, validatedData.model);
+      if ("status" in resolvedModel) {
+        return sendEntitlementDenied(res, resolvedModel);
+      }
+
+      const reserved = await reserveCredit(workspace.id, {
+        userId: req.user!.id,
+        operation: "page_generate",
+        projectId: project.id,
+        description: `Page "${validatedData.title}"`,
+      });
+      if ("status" in reserved) {
+        return sendCreditDenied(res, reserved);
+      }
+
+      const job = await enqueueJob(req.user!.id, "page_generate", {
+        projectId: project.id,
+        title: validatedData.title,
+        slug: resolved.slug,
+        instructions: validatedData.instructions,
+        model: resolvedModel.model,
+      }, reserved.creditId);
+
+      res.status(202).json({
+        jobId: job.id,
+        status: job.status,
+        message: "Page generation queued",
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: error.errors[0].message });
+      }
+      console.error("Page generation error:", error);
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to generate page" });
+    }
+  });
+
+  app.get("/api/jobs/:id", authMiddleware, requireScope("projects:read"), async (req: AuthRequest, res) => {
+    try {
+      const job = await storage.getJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
       }
-      if (project.userId !== req.user!.id && req.user!.role !== "ADMIN") {
+      if (!canViewJob(req.user!, job)) {
         return res.status(403).json({ message: "Access denied" });
       }
 
+      const project = job.status === "succeeded" && job.projectId
+        ? await storage.getProject(job.projectId)
+        : undefined;
+
+      res.json({
+        id: job.id,
+        type: job.type,
+        status: job.status,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        projectId: job.projectId,
+        project: project || null,
+        error: job.status === "failed" ? job.error : null,
+        createdAt: job.createdAt,
+        completedAt: job.completedAt,
+      });
+    } catch (error) {
+      console.error("Get job error:", error);
+      res.status(500).json({ message: "Internal server error" });
+    }
+  });
+
+  app.get("/api/website/:id/preview", authMiddleware, requireScope("projects:read"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "read");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
       if (!project.generatedHtml) {
         return res.status(400).json({ message: "No website generated for this project" });
       }
 
-      let html = project.generatedHtml;
-      if (project.generatedCss && !html.includes("<style>")) {
-        html = html.replace("</head>", `<style>${project.generatedCss}</style></head>`);
+      const pages = await storage.getPages(project.id);
+      const pageSlug = typeof req.query.page === "string" ? req.query.page : undefined;
+      const page = pageSlug ? pages.find((candidate) => candidate.slug === pageSlug) : undefined;
+      if (pageSlug && !page) {
+        return res.status(404).json({ message: "Page not found" });
       }
 
+      const html = wireSiteForms(
+        renderProjectPage(project, pages, page, (path) =>
+          `/api/website/${project.id}/preview${path === "/" ? "" : `?page=${path.slice(1)}`}`
+        ),
+        project.id,
+        formActionPath(project.id),
+        pagePath(page ? page.slug : null)
+      );
+
+      setSiteSecurityHeaders(res);
       res.setHeader("Content-Type", "text/html");
       res.send(html);
     } catch (error) {
@@ -520,27 +2992,36 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/website/:id/download", authMiddleware, async (req: AuthRequest, res) => {
+  app.get("/api/website/:id/download", authMiddleware, requireScope("projects:read"), async (req: AuthRequest, res) => {
     try {
-      const project = await storage.getProject(req.params.id);
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-      if (project.userId !== req.user!.id && req.user!.role !== "ADMIN") {
-        return res.status(403).json({ message: "Access denied" });
+      const access = await authorizeProject(req.user!, req.params.id, "read");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
       }
+      const { project } = access;
 
       if (!project.generatedHtml) {
         return res.status(400).json({ message: "No website generated for this project" });
       }
 
-      let html = project.generatedHtml;
-      if (project.generatedCss && !html.includes("<style>")) {
-        html = html.replace("</head>", `<style>${project.generatedCss}</style></head>`);
+      const pages = await storage.getPages(project.id);
+      const pageSlug = typeof req.query.page === "string" ? req.query.page : undefined;
+      const page = pageSlug ? pages.find((candidate) => candidate.slug === pageSlug) : undefined;
+      if (pageSlug && !page) {
+        return res.status(404).json({ message: "Page not found" });
       }
 
+      const html = wireSiteForms(
+        renderProjectPage(project, pages, page, (path) => path),
+        project.id,
+        `${apiBaseUrl(req)}${formActionPath(project.id)}`,
+        pagePath(page ? page.slug : null)
+      );
+      const fileName = page ? `${project.name}_${page.slug}` : project.name;
+
+      setSiteSecurityHeaders(res);
       res.setHeader("Content-Type", "text/html");
-      res.setHeader("Content-Disposition", `attachment; filename="${project.name.replace(/[^a-z0-9]/gi, '_')}.html"`);
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName.replace(/[^a-z0-9]/gi, '_')}.html"`);
       res.send(html);
     } catch (error) {
       console.error("Download error:", error);
@@ -548,5 +3029,70 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/website/:id/export", authMiddleware, requireScope("projects:read"), async (req: AuthRequest, res) => {
+    try {
+      const access = await authorizeProject(req.user!, req.params.id, "read");
+      if ("status" in access) {
+        return res.status(access.status).json({ message: access.message });
+      }
+      const { project } = access;
+
+      if (!project.generatedHtml) {
+        return res.status(400).json({ message: "No website generated for this project" });
+      }
+
+      const hosting = String(req.query.hosting || "")
+        .split(",")
+        .map((target) => target.trim().toLowerCase())
+        .filter(Boolean);
+      const unknownTarget = hosting.find((target) => !HOSTING_TARGETS.includes(target as HostingTarget));
+      if (unknownTarget) {
+        return res.status(400).json({ message: `Unknown hosting target "${unknownTarget}"` });
+      }
+
+      const baseUrl = project.domain ? `https://${project.domain}` : `${apiBaseUrl(req)}/s/${project.slug}`;
+      const formAction = `${apiBaseUrl(req)}${formActionPath(project.id)}`;
+
+      const sitePages = await storage.getPages(project.id);
+      const pages = [undefined, ...sitePages].map((page) => {
+        const path = page ? pagePath(page.slug) : "/";
+        return {
+          path,
+          title: page ? page.title : project.name,
+          html: wireSiteForms(
+            renderProjectPage(project, sitePages, page, (target) => relativePageHref(path, target)),
+            project.id,
+            formAction,
+            path
+          ),
+        };
+      });
+      const mediaItems = await storage.getMedia(project.userId, project.workspaceId ?? undefined);
+
+      const archive = archiver("zip", { zlib: { level: 9 } });
+      archive.on("error", (error) => {
+        console.error("Export archive error:", error);
+        res.destroy(error);
+      });
+
+      res.setHeader("Content-Type", "application/zip");
+      res.setHeader("Content-Disposition", `attachment; filename="${project.name.replace(/[^a-z0-9]/gi, '_')}.zip"`);
+      archive.pipe(res);
+
+      await writeSiteExport(archive, project, pages, mediaItems, {
+        baseUrl,
+        minify: req.query.minify === "true" || req.query.minify === "1",
+        hosting: hosting as HostingTarget[],
+      });
+      await archive.finalize();
+    } catch (error) {
+      console.error("Export error:", error);
+      if (res.headersSent) {
+        return res.destroy(error as Error);
+      }
+      res.status(500).json({ message: "Failed to export website" });
+    }
+  });
+
   return httpServer;
 }
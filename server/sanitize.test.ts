@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildContentSecurityPolicy,
+  isTruncatedFragment,
+  isTruncatedHtml,
+  sanitizeWebsiteCss,
+  sanitizeWebsiteHtml,
+} from "./sanitize";
+
+function page(body: string, head = "") {
+  return `<!DOCTYPE html><html lang="en"><head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Site</title>${head}</head><body>${body}</body></html>`;
+}
+
+function warningCodes(html: string) {
+  return sanitizeWebsiteHtml(html).report.warnings.map((warning) => warning.code);
+}
+
+describe("sanitizeWebsiteHtml", () => {
+  it("leaves a clean page untouched", () => {
+    const { html, report } = sanitizeWebsiteHtml(page('<h1 class="title">Hello</h1><img src="https://images.unsplash.com/photo-1">'));
+
+    expect(report.warnings).toEqual([]);
+    expect(html).toContain('<h1 class="title">Hello</h1>');
+    expect(html).toContain('src="https://images.unsplash.com/photo-1"');
+  });
+
+  it("removes inline and external scripts", () => {
+    const { html } = sanitizeWebsiteHtml(page('<script>alert(1)</script><script src="https://evil.example/x.js"></script><p>ok</p>'));
+
+    expect(html).not.toContain("<script");
+    expect(html).toContain("<p>ok</p>");
+    expect(warningCodes(page("<script>alert(1)</script>"))).toEqual(["script_removed"]);
+  });
+
+  it("strips event handlers and javascript: URLs", () => {
+    const { html, report } = sanitizeWebsiteHtml(page('<a href="javascript:alert(1)" onclick="steal()">Link</a><img src="/a.png" ONERROR="x()">'));
+
+    expect(html).not.toMatch(/onclick|onerror|javascript:/i);
+    expect(report.warnings.map((warning) => warning.code)).toEqual([
+      "javascript_url_removed",
+      "event_handler_removed",
+      "event_handler_removed",
+    ]);
+  });
+
+  it("reaches into template contents", () => {
+    const { html } = sanitizeWebsiteHtml(page("<template><script>alert(1)</script><p>kept</p></template>"));
+
+    expect(html).not.toContain("<script");
+    expect(html).toContain("<p>kept</p>");
+  });
+
+  it("removes embedding elements and meta refreshes", () => {
+    const { html } = sanitizeWebsiteHtml(page('<iframe src="https://evil.example"></iframe><object data="x"></object>', '<meta http-equiv="refresh" content="0;url=https://evil.example">'));
+
+    expect(html).not.toMatch(/<iframe|<object|http-equiv/);
+  });
+
+  it("blocks resources from unapproved origins", () => {
+    const { html } = sanitizeWebsiteHtml(page(
+      '<img src="https://tracker.example/pixel.gif"><img srcset="https://images.unsplash.com/a 1x, https://tracker.example/b 2x">',
+      '<link rel="stylesheet" href="https://evil.example/x.css"><link rel="stylesheet" href="https://fonts.googleapis.com/css2?family=Inter">'
+    ));
+
+    expect(html).not.toContain("tracker.example");
+    expect(html).not.toContain("evil.example");
+    expect(html).toContain("https://fonts.googleapis.com/css2?family=Inter");
+  });
+
+  it("drops external form actions", () => {
+    const { html } = sanitizeWebsiteHtml(page('<form action="https://evil.example/collect"><button formaction="//evil.example">Go</button></form><form action="/subscribe"></form>'));
+
+    expect(html).not.toContain("evil.example");
+    expect(html).toContain('action="/subscribe"');
+  });
+
+  it("repairs a document missing its doctype, lang, title and meta tags", () => {
+    const { html, report } = sanitizeWebsiteHtml("<html><head></head><body><p>Hi</p></body></html>");
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<html lang="en">');
+    expect(html).toContain("<title>Website</title>");
+    expect(html).toContain('name="viewport"');
+    expect(html).toContain('charset="utf-8"');
+    expect(report.warnings.every((warning) => warning.code === "structure_repaired")).toBe(true);
+  });
+});
+
+describe("sanitizeWebsiteCss", () => {
+  it("blocks unapproved imports and urls but keeps approved ones", () => {
+    const { css, warnings } = sanitizeWebsiteCss(
+      '@import url("https://evil.example/x.css"); @import url("https://fonts.googleapis.com/css2?family=Inter"); ' +
+      '.a { background: url(https://tracker.example/a.png); } .b { background: url("https://images.unsplash.com/b"); }'
+    );
+
+    expect(css).not.toContain("evil.example");
+    expect(css).not.toContain("tracker.example");
+    expect(css).toContain("https://fonts.googleapis.com/css2?family=Inter");
+    expect(css).toContain("https://images.unsplash.com/b");
+    expect(warnings.map((warning) => warning.code)).toEqual(["css_url_blocked", "css_url_blocked"]);
+  });
+
+  it("neutralises expression() and javascript: urls", () => {
+    const { css } = sanitizeWebsiteCss(".a { width: expression(alert(1)); background: url(javascript:alert(1)); }");
+
+    expect(css).not.toMatch(/expression\s*\(|javascript:/i);
+  });
+});
+
+describe("truncation checks", () => {
+  it("flags documents cut off before </body> or </html>", () => {
+    expect(isTruncatedHtml(page("<p>done</p>"))).toBe(false);
+    expect(isTruncatedHtml("<!DOCTYPE html><html><body><p>Cut off")).toBe(true);
+  });
+
+  it("flags fragments whose root element never closes", () => {
+    expect(isTruncatedFragment('<section class="hero"><h1>Hi</h1></section>')).toBe(false);
+    expect(isTruncatedFragment('<section class="hero"><h1>Hi</h1>')).toBe(true);
+    expect(isTruncatedFragment("plain text")).toBe(true);
+  });
+});
+
+describe("buildContentSecurityPolicy", () => {
+  it("allows no scripts unless their hashes are given", () => {
+    expect(buildContentSecurityPolicy()).toContain("script-src 'none'");
+    expect(buildContentSecurityPolicy(["sha256-abc"])).toContain("script-src 'sha256-abc'");
+  });
+});
@@ -0,0 +1,328 @@
+import { parse, serialize, defaultTreeAdapter, html as parse5Html, type DefaultTreeAdapterMap } from "parse5";
+import { mediaStorage } from "./media-storage";
+
+type Node = DefaultTreeAdapterMap["node"];
+type Element = DefaultTreeAdapterMap["element"];
+type ParentNode = DefaultTreeAdapterMap["parentNode"];
+type TextNode = DefaultTreeAdapterMap["textNode"];
+
+export interface SanitizationWarning {
+  code:
+    | "script_removed"
+    | "event_handler_removed"
+    | "javascript_url_removed"
+    | "element_removed"
+    | "external_resource_blocked"
+    | "css_url_blocked"
+    | "form_action_removed"
+    | "structure_repaired";
+  message: string;
+  detail?: string;
+}
+
+export interface SanitizationReport {
+  sanitizedAt: string;
+  warnings: SanitizationWarning[];
+}
+
+export interface SanitizedHtml {
+  html: string;
+  report: SanitizationReport;
+}
+
+// Approved CDNs for generated sites: Google Fonts, Font Awesome and Unsplash.
+const STYLE_SOURCES = [
+  "https://fonts.googleapis.com/",
+  "https://cdnjs.cloudflare.com/ajax/libs/font-awesome/",
+  "https://use.fontawesome.com/",
+];
+const FONT_SOURCES = [
+  "https://fonts.gstatic.com/",
+  "https://cdnjs.cloudflare.com/ajax/libs/font-awesome/",
+  "https://use.fontawesome.com/",
+];
+const IMAGE_SOURCES = [
+  "https://images.unsplash.com/",
+  "https://plus.unsplash.com/",
+  "https://source.unsplash.com/",
+];
+const PRECONNECT_ORIGINS = [
+  "https://fonts.googleapis.com",
+  "https://fonts.gstatic.com",
+  "https://cdnjs.cloudflare.com",
+  "https://use.fontawesome.com",
+];
+
+const REMOVED_ELEMENTS = new Set(["iframe", "object", "embed", "applet", "base", "frame", "frameset", "portal"]);
+const MEDIA_ELEMENTS = new Set(["img", "source", "video", "audio", "track", "picture", "input"]);
+const URL_ATTRIBUTES = new Set(["href", "src", "action", "formaction", "poster", "xlink:href", "background"]);
+
+function mediaSources(): string[] {
+  const base = mediaStorage.getUrl("");
+  return /^https?:\/\//.test(base) ? [base] : [];
+}
+
+function isExternal(url: string): boolean {
+  return /^(https?:)?\/\//i.test(url.trim());
+}
+
+function isAllowedResource(url: string, allowed: string[]): boolean {
+  const trimmed = url.trim();
+  if (trimmed.startsWith("data:image/") || trimmed.startsWith("data:font/")) return true;
+  if (!isExternal(trimmed)) return !/^[a-z][a-z0-9+.-]*:/i.test(trimmed);
+  const absolute = trimmed.startsWith("//") ? `https:${trimmed}` : trimmed;
+  return allowed.some((prefix) => absolute.startsWith(prefix));
+}
+
+function isJavascriptUrl(url: string): boolean {
+  return /^\s*(javascript|vbscript|data:text\/html)/i.test(url.replace(/[\u0000-\u001f\s]+/g, ""));
+}
+
+function isElement(node: Node): node is Element {
+  return "tagName" in node;
+}
+
+function children(node: ParentNode): Element[] {
+  return node.childNodes.filter(isElement);
+}
+
+function getAttribute(element: Element, name: string): string | undefined {
+  return element.attrs.find((attr) => attr.name === name)?.value;
+}
+
+function removeAttribute(element: Element, name: string): void {
+  element.attrs = element.attrs.filter((attr) => attr.name !== name);
+}
+
+class Sanitizer {
+  readonly warnings: SanitizationWarning[] = [];
+  private readonly imageSources = [...IMAGE_SOURCES, ...mediaSources()];
+  private readonly cssUrlSources = [...this.imageSources, ...FONT_SOURCES];
+
+  warn(code: SanitizationWarning["code"], message: string, detail?: string) {
+    this.warnings.push({ code, message, detail: detail?.slice(0, 200) });
+  }
+
+  sanitizeCss(css: string, where: string): string {
+    const withoutImports = css.replace(/@import\s+(?:url\()?\s*['"]?([^'")\s;]+)['"]?\s*\)?[^;]*;/gi, (rule, url: string) => {
+      if (isAllowedResource(url, STYLE_SOURCES)) return rule;
+      this.warn("css_url_blocked", `Blocked @import of an unapproved stylesheet in ${where}`, url);
+      return "";
+    });
+
+    return withoutImports
+      .replace(/expression\s*\(/gi, () => {
+        this.warn("css_url_blocked", `Removed CSS expression() in ${where}`);
+        return "(";
+      })
+      .replace(/(@import\s*)?url\(\s*(['"]?)([^'")]*)\2\s*\)/gi, (match, importRule: string | undefined, _quote, url: string) => {
+        // Imports left at this point were approved above.
+        if (importRule) return match;
+        if (isJavascriptUrl(url)) {
+          this.warn("javascript_url_removed", `Removed javascript: URL from CSS in ${where}`, url);
+          return "none";
+        }
+        if (isAllowedResource(url, this.cssUrlSources)) return match;
+        this.warn("css_url_blocked", `Blocked CSS url() to an unapproved origin in ${where}`, url);
+        return "none";
+      });
+  }
+
+  sanitizeElement(element: Element): boolean {
+    const tag = element.tagName;
+
+    if (tag === "script") {
+      const src = getAttribute(element, "src");
+      this.warn("script_removed", src ? "Removed external script" : "Removed inline script", src);
+      return false;
+    }
+    if (REMOVED_ELEMENTS.has(tag)) {
+      this.warn("element_removed", `Removed <${tag}> element`, getAttribute(element, "src") || getAttribute(element, "href"));
+      return false;
+    }
+    if (tag === "meta" && getAttribute(element, "http-equiv")?.toLowerCase() === "refresh") {
+      this.warn("element_removed", "Removed <meta http-equiv=\"refresh\">");
+      return false;
+    }
+
+    for (const attr of [...element.attrs]) {
+      const name = attr.name.toLowerCase();
+      if (name.startsWith("on")) {
+        this.warn("event_handler_removed", `Removed ${name} handler from <${tag}>`, attr.value);
+        removeAttribute(element, attr.name);
+      } else if (URL_ATTRIBUTES.has(name) && isJavascriptUrl(attr.value)) {
+        this.warn("javascript_url_removed", `Removed javascript: URL from <${tag} ${name}>`, attr.value);
+        removeAttribute(element, attr.name);
+      } else if (name === "style") {
+        attr.value = this.sanitizeCss(attr.value, `<${tag}> style attribute`);
+      }
+    }
+
+    if (tag === "link") {
+      const href = getAttribute(element, "href");
+      const rel = (getAttribute(element, "rel") || "").toLowerCase();
+      if (href) {
+        const allowed = rel.includes("preconnect") || rel.includes("dns-prefetch")
+          ? PRECONNECT_ORIGINS.some((origin) => href.replace(/\/$/, "") === origin)
+          : rel.includes("icon")
+            ? isAllowedResource(href, this.imageSources)
+            : isAllowedResource(href, [...STYLE_SOURCES, ...FONT_SOURCES]);
+        if (!allowed) {
+          this.warn("external_resource_blocked", "Removed <link> to an unapproved origin", href);
+          return false;
+        }
+      }
+    }
+
+    if (MEDIA_ELEMENTS.has(tag)) {
+      for (const name of ["src", "poster"]) {
+        const value = getAttribute(element, name);
+        if (value && !isAllowedResource(value, this.imageSources)) {
+          this.warn("external_resource_blocked", `Blocked <${tag} ${name}> from an unapproved origin`, value);
+          removeAttribute(element, name);
+        }
+      }
+      const srcset = getAttribute(element, "srcset");
+      if (srcset && srcset.split(",").some((candidate) => !isAllowedResource(candidate.trim().split(/\s+/)[0] || "", this.imageSources))) {
+        this.warn("external_resource_blocked", `Blocked <${tag} srcset> from an unapproved origin`, srcset);
+        removeAttribute(element, "srcset");
+      }
+    }
+
+    if (tag === "form" || tag === "button" || tag === "input") {
+      const attrName = tag === "form" ? "action" : "formaction";
+      const action = getAttribute(element, attrName);
+      if (action && isExternal(action)) {
+        this.warn("form_action_removed", `Removed external ${attrName} from <${tag}>`, action);
+        removeAttribute(element, attrName);
+      }
+    }
+
+    if (tag === "style") {
+      for (const child of element.childNodes) {
+        if (child.nodeName === "#text") {
+          (child as TextNode).value = this.sanitizeCss((child as TextNode).value, "<style>");
+        }
+      }
+    }
+
+    return true;
+  }
+
+  walk(node: ParentNode): void {
+    const content = (node as Element).tagName === "template" ? (node as DefaultTreeAdapterMap["template"]).content : null;
+    if (content) this.walk(content);
+
+    for (const child of [...node.childNodes]) {
+      if (!isElement(child)) continue;
+      if (!this.sanitizeElement(child)) {
+        defaultTreeAdapter.detachNode(child);
+        continue;
+      }
+      this.walk(child);
+    }
+  }
+}
+
+/**
+ * Detects output that was cut off mid-document, e.g. when the model hits its
+ * token limit. The parser would silently close the open tags, so this has to
+ * look at the raw text.
+ */
+export function isTruncatedHtml(html: string): boolean {
+  const trimmed = html.trim();
+  return !/<\/html>\s*$/i.test(trimmed) || !/<\/body>/i.test(trimmed);
+}
+
+export function isTruncatedFragment(fragment: string): boolean {
+  const trimmed = fragment.trim();
+  const opening = trimmed.match(/^<([a-z][a-z0-9-]*)/i);
+  return !opening || !new RegExp(`</${opening[1]}\\s*>$`, "i").test(trimmed);
+}
+
+function ensureHeadElement(sanitizer: Sanitizer, head: Element, tagName: string, attrs: { name: string; value: string }[], matches: (element: Element) => boolean, message: string) {
+  if (children(head).some(matches)) return;
+  const element = defaultTreeAdapter.createElement(tagName, parse5Html.NS.HTML, attrs);
+  const first = head.childNodes[0];
+  if (first) {
+    defaultTreeAdapter.insertBefore(head, element, first);
+  } else {
+    defaultTreeAdapter.appendChild(head, element);
+  }
+  sanitizer.warn("structure_repaired", message);
+  return element;
+}
+
+export function sanitizeWebsiteHtml(html: string): SanitizedHtml {
+  const sanitizer = new Sanitizer();
+  const document = parse(html);
+
+  if (!document.childNodes.some((node) => node.nodeName === "#documentType")) {
+    defaultTreeAdapter.setDocumentType(document, "html", "", "");
+    const doctype = document.childNodes.findIndex((node) => node.nodeName === "#documentType");
+    document.childNodes.unshift(...document.childNodes.splice(doctype, 1));
+    sanitizer.warn("structure_repaired", "Added missing <!DOCTYPE html>");
+  }
+
+  sanitizer.walk(document);
+
+  const root = children(document).find((element) => element.tagName === "html");
+  const head = root && children(root).find((element) => element.tagName === "head");
+  if (root && !getAttribute(root, "lang")) {
+    root.attrs.push({ name: "lang", value: "en" });
+    sanitizer.warn("structure_repaired", "Added missing lang attribute");
+  }
+  if (head) {
+    const title = ensureHeadElement(sanitizer, head, "title", [], (element) => element.tagName === "title", "Added missing <title>");
+    if (title) defaultTreeAdapter.insertText(title, "Website");
+    ensureHeadElement(
+      sanitizer, head, "meta", [{ name: "name", value: "viewport" }, { name: "content", value: "width=device-width, initial-scale=1" }],
+      (element) => element.tagName === "meta" && getAttribute(element, "name") === "viewport",
+      "Added missing viewport meta tag"
+    );
+    ensureHeadElement(
+      sanitizer, head, "meta", [{ name: "charset", value: "utf-8" }],
+      (element) => element.tagName === "meta" && getAttribute(element, "charset") !== undefined,
+      "Added missing charset meta tag"
+    );
+  }
+
+  return {
+    html: serialize(document),
+    report: {
+      sanitizedAt: new Date().toISOString(),
+      warnings: sanitizer.warnings,
+    },
+  };
+}
+
+export function sanitizeWebsiteCss(css: string): { css: string; warnings: SanitizationWarning[] } {
+  const sanitizer = new Sanitizer();
+  const cleaned = sanitizer.sanitizeCss(css.replace(/<\/?style[^>]*>/gi, ""), "generated CSS");
+  return { css: cleaned, warnings: sanitizer.warnings };
+}
+
+function uniqueOrigins(prefixes: string[]): string {
+  return Array.from(new Set(prefixes)).join(" ");
+}
+
+// `scriptHashes` allows specific inline scripts (the analytics beacon on
+// published pages); without any, no script can run.
+export function buildContentSecurityPolicy(scriptHashes: string[] = []): string {
+  const frameAncestors = [process.env.FRONTEND_URL || "http://localhost:5173", "https://siteforgeai.vercel.app"];
+  const media = mediaSources();
+
+  return [
+    "default-src 'none'",
+    `style-src 'self' 'unsafe-inline' ${uniqueOrigins(STYLE_SOURCES)}`,
+    `font-src 'self' data: ${uniqueOrigins(FONT_SOURCES)}`,
+    `img-src 'self' data: ${uniqueOrigins([...IMAGE_SOURCES, ...media])}`,
+    `media-src 'self' ${uniqueOrigins(media)}`.trim(),
+    scriptHashes.length > 0 ? `script-src ${scriptHashes.map((hash) => `'${hash}'`).join(" ")}` : "script-src 'none'",
+    scriptHashes.length > 0 ? "connect-src 'self'" : "connect-src 'none'",
+    "object-src 'none'",
+    "base-uri 'none'",
+    "form-action 'self'",
+    `frame-ancestors 'self' ${uniqueOrigins(frameAncestors)}`,
+  ].join("; ");
+}
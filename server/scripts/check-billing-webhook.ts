@@ -0,0 +1,134 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { parseArgs } from "util";
+import { signWebhookPayload, verifyWebhookSignature, type BillingEvent } from "../webhook-signature";
+
+/**
+ * Signs the Stripe fixture events in server/fixtures/stripe and checks them
+ * against the webhook's signature verification: every fixture must verify,
+ * and tampered, wrongly signed or stale copies must be rejected. No Stripe
+ * account or database is needed.
+ *
+ * With --url, the signed events are also posted to a running server's
+ * webhook, in the order a subscription would go through them, e.g.
+ *
+ *   STRIPE_WEBHOOK_SECRET=whsec_test npm run check:billing-webhook -- \
+ *     --url http://localhost:5000 --workspace <workspace id>
+ *
+ * The server must run with the same STRIPE_WEBHOOK_SECRET. Event ids get a
+ * per-run suffix so repeated runs aren't dropped as duplicates.
+ */
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), "../fixtures/stripe");
+const FIXTURES = [
+  "checkout-session-completed.json",
+  "invoice-paid.json",
+  "customer-subscription-updated.json",
+  "invoice-payment-failed.json",
+  "customer-subscription-deleted.json",
+];
+const DAY_SECONDS = 24 * 60 * 60;
+
+const { values: args } = parseArgs({
+  options: {
+    url: { type: "string" },
+    workspace: { type: "string", default: "ws_fixture" },
+  },
+});
+const secret = process.env.STRIPE_WEBHOOK_SECRET || "whsec_fixture";
+const runId = Date.now().toString(36);
+
+function loadFixture(file: string): BillingEvent {
+  const now = Math.floor(Date.now() / 1000);
+  const placeholders: Record<string, string | number> = {
+    now,
+    periodStart: now,
+    periodEnd: now + 30 * DAY_SECONDS,
+    workspaceId: args.workspace!,
+    customerId: `cus_fixture_${args.workspace}`,
+    subscriptionId: `sub_fixture_${args.workspace}`,
+    proPriceId: process.env.STRIPE_PRICE_PRO || "price_fixture_pro",
+  };
+  const template = readFileSync(path.join(FIXTURES_DIR, file), "utf8");
+  const filled = template.replace(/"\{\{(\w+)\}\}"/g, (match, name: string) => {
+    if (!(name in placeholders)) {
+      throw new Error(`${file}: unknown placeholder ${match}`);
+    }
+    return JSON.stringify(placeholders[name]);
+  });
+  const event = JSON.parse(filled) as BillingEvent;
+  return { ...event, id: `${event.id}_${runId}` };
+}
+
+function checkSignatures(file: string, payload: string): string[] {
+  const failures: string[] = [];
+  const header = signWebhookPayload(payload, secret);
+
+  const verified = verifyWebhookSignature(payload, header, secret);
+  if (!verified || JSON.stringify(verified) !== payload) {
+    failures.push("signed payload was not accepted");
+  }
+  if (verifyWebhookSignature(Buffer.from(payload), header, secret)?.id !== verified?.id) {
+    failures.push("signed raw body was not accepted");
+  }
+  if (verifyWebhookSignature(payload.replace(/}$/, ', "tampered": true}'), header, secret)) {
+    failures.push("tampered payload was accepted");
+  }
+  if (verifyWebhookSignature(payload, signWebhookPayload(payload, `${secret}_wrong`), secret)) {
+    failures.push("payload signed with another secret was accepted");
+  }
+  const stale = signWebhookPayload(payload, secret, Math.floor(Date.now() / 1000) - 10 * 60);
+  if (verifyWebhookSignature(payload, stale, secret)) {
+    failures.push("stale signature was accepted");
+  }
+  if (verifyWebhookSignature(payload, undefined, secret)) {
+    failures.push("payload without a signature was accepted");
+  }
+
+  return failures.map((failure) => `${file}: ${failure}`);
+}
+
+async function postEvent(url: string, payload: string): Promise<{ status: number; body: string }> {
+  const response = await fetch(`${url.replace(/\/$/, "")}/api/billing/webhook`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "Stripe-Signature": signWebhookPayload(payload, secret) },
+    body: payload,
+  });
+  return { status: response.status, body: await response.text() };
+}
+
+async function main(): Promise<number> {
+  const failures: string[] = [];
+
+  for (const file of FIXTURES) {
+    const event = loadFixture(file);
+    const payload = JSON.stringify(event);
+    const fixtureFailures = checkSignatures(file, payload);
+    failures.push(...fixtureFailures);
+    console.log(`${fixtureFailures.length === 0 ? "ok  " : "FAIL"} ${event.type} (${file})`);
+
+    if (args.url) {
+      const { status, body } = await postEvent(args.url, payload);
+      if (status !== 200) {
+        failures.push(`${file}: webhook responded ${status} ${body}`);
+      }
+      console.log(`     POST ${event.type} -> ${status} ${body}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    console.error(`\n${failures.length} check(s) failed:\n${failures.map((failure) => `- ${failure}`).join("\n")}`);
+    return 1;
+  }
+  console.log(`\nAll ${FIXTURES.length} fixture events passed.`);
+  return 0;
+}
+
+main().then(
+  (code) => process.exit(code),
+  (error) => {
+    console.error("Billing webhook check error:", error);
+    process.exit(1);
+  }
+);
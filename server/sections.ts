@@ -0,0 +1,224 @@
+import { parse, parseFragment, type DefaultTreeAdapterMap } from "parse5";
+
+type Node = DefaultTreeAdapterMap["node"];
+type Element = DefaultTreeAdapterMap["element"];
+type ParentNode = DefaultTreeAdapterMap["parentNode"];
+
+export const SECTION_ATTRIBUTE = "data-section";
+
+const SECTIONING_TAGS = new Set(["header", "nav", "section", "main", "article", "aside", "footer", "div"]);
+
+export interface SiteSection {
+  name: string;
+  tag: string;
+  index: number;
+  start: number;
+  end: number;
+  html: string;
+}
+
+function isElement(node: Node): node is Element {
+  return "tagName" in node;
+}
+
+function childElements(node: ParentNode): Element[] {
+  return node.childNodes.filter(isElement);
+}
+
+function getAttribute(element: Element, name: string): string | undefined {
+  return element.attrs.find((attr) => attr.name === name)?.value;
+}
+
+function findBody(html: string): Element | undefined {
+  const document = parse(html, { sourceCodeLocationInfo: true });
+  const root = childElements(document).find((element) => element.tagName === "html");
+  return root ? childElements(root).find((element) => element.tagName === "body") : undefined;
+}
+
+function collectMarked(node: ParentNode, found: Element[]): void {
+  for (const child of childElements(node)) {
+    if (getAttribute(child, SECTION_ATTRIBUTE) !== undefined) {
+      found.push(child);
+    } else {
+      collectMarked(child, found);
+    }
+  }
+}
+
+// Top-level blocks of a site that predates section markers: the body's
+// sectioning children, looking through a single wrapper element if present.
+function findUnmarkedBlocks(body: Element): Element[] {
+  let candidates = childElements(body).filter((element) => element.tagName !== "script" && element.tagName !== "style");
+  if (candidates.length === 1 && (candidates[0].tagName === "div" || candidates[0].tagName === "main")) {
+    candidates = childElements(candidates[0]);
+  }
+  return candidates.filter((element) => SECTIONING_TAGS.has(element.tagName));
+}
+
+function uniqueName(base: string, used: Set<string>): string {
+  const normalized = base.toLowerCase().replace(/[^a-z0-9-]+/g, "-").replace(/^-+|-+$/g, "") || "section";
+  let name = normalized;
+  for (let i = 2; used.has(name); i++) {
+    name = `${normalized}-${i}`;
+  }
+  used.add(name);
+  return name;
+}
+
+/**
+ * Adds `data-section` markers to the top-level blocks of a document that has
+ * none, naming them after their id or tag. Documents that already carry
+ * markers are returned unchanged.
+ */
+export function ensureSectionMarkers(html: string): string {
+  const body = findBody(html);
+  if (!body) return html;
+
+  const marked: Element[] = [];
+  collectMarked(body, marked);
+  if (marked.length > 0) return html;
+
+  const used = new Set<string>();
+  const insertions = findUnmarkedBlocks(body).map((element) => {
+    const name = uniqueName(getAttribute(element, "id") || element.tagName, used);
+    const offset = element.sourceCodeLocation!.startTag!.startOffset + 1 + element.tagName.length;
+    return { offset, text: ` ${SECTION_ATTRIBUTE}="${name}"` };
+  });
+
+  let result = html;
+  for (const { offset, text } of insertions.reverse()) {
+    result = result.slice(0, offset) + text + result.slice(offset);
+  }
+  return result;
+}
+
+export function parseSections(html: string): SiteSection[] {
+  const body = findBody(html);
+  if (!body) return [];
+
+  const marked: Element[] = [];
+  collectMarked(body, marked);
+
+  return marked
+    .filter((element) => element.sourceCodeLocation?.endOffset !== undefined)
+    .map((element, index) => {
+      const start = element.sourceCodeLocation!.startOffset;
+      const end = element.sourceCodeLocation!.endOffset;
+      return {
+        name: getAttribute(element, SECTION_ATTRIBUTE) || `section-${index + 1}`,
+        tag: element.tagName,
+        index,
+        start,
+        end,
+        html: html.slice(start, end),
+      };
+    });
+}
+
+export function findSection(html: string, name: string): SiteSection | undefined {
+  return parseSections(html).find((section) => section.name === name);
+}
+
+/**
+ * Checks that a fragment is exactly one element and gives it a section marker
+ * (keeping an existing one), so it can be stored as a section.
+ */
+export function normalizeSectionFragment(fragment: string, name: string): string {
+  const trimmed = fragment.trim();
+  const nodes = parseFragment(trimmed, { sourceCodeLocationInfo: true }).childNodes.filter(
+    (node) => isElement(node) || (node.nodeName === "#text" && "value" in node && node.value.trim() !== "")
+  );
+  if (nodes.length !== 1 || !isElement(nodes[0])) {
+    throw new Error("Section HTML must contain exactly one top-level element");
+  }
+
+  const element = nodes[0];
+  const existing = getAttribute(element, SECTION_ATTRIBUTE);
+  if (existing === name) return trimmed;
+
+  const startTag = element.sourceCodeLocation!.startTag!;
+  const marker = ` ${SECTION_ATTRIBUTE}="${name}"`;
+  if (existing === undefined) {
+    const offset = startTag.startOffset + 1 + element.tagName.length;
+    return trimmed.slice(0, offset) + marker + trimmed.slice(offset);
+  }
+
+  const openingTag = trimmed.slice(startTag.startOffset, startTag.endOffset)
+    .replace(/\sdata-section\s*=\s*("[^"]*"|'[^']*'|[^\s>]+)/i, marker);
+  return trimmed.slice(0, startTag.startOffset) + openingTag + trimmed.slice(startTag.endOffset);
+}
+
+export function replaceSection(html: string, name: string, fragment: string): string {
+  const section = findSection(html, name);
+  if (!section) {
+    throw new Error(`Section "${name}" not found`);
+  }
+  return html.slice(0, section.start) + normalizeSectionFragment(fragment, name) + html.slice(section.end);
+}
+
+export function removeSection(html: string, name: string): string {
+  const section = findSection(html, name);
+  if (!section) {
+    throw new Error(`Section "${name}" not found`);
+  }
+  return html.slice(0, section.start) + html.slice(section.end);
+}
+
+/**
+ * Moves sections into the given order. Each section slot keeps its position
+ * in the document, so content between sections stays where it was.
+ */
+export function reorderSections(html: string, order: string[]): string {
+  const sections = parseSections(html);
+  const names = sections.map((section) => section.name);
+  if (order.length !== names.length || [...order].sort().join("\0") !== [...names].sort().join("\0")) {
+    throw new Error("Order must list every section exactly once");
+  }
+
+  const byName = new Map(sections.map((section) => [section.name, section]));
+  let result = "";
+  let cursor = 0;
+  sections.forEach((slot, i) => {
+    result += html.slice(cursor, slot.start) + byName.get(order[i])!.html;
+    cursor = slot.end;
+  });
+  return result + html.slice(cursor);
+}
+
+/**
+ * Inserts a new section at `position` (0 puts it first). Returns the updated
+ * document and the name the section was stored under.
+ */
+export function insertSection(
+  html: string,
+  fragment: string,
+  position: number,
+  requestedName?: string
+): { html: string; name: string } {
+  const sections = parseSections(html);
+  const used = new Set(sections.map((section) => section.name));
+
+  const fragmentElement = parseFragment(fragment.trim()).childNodes.find(isElement);
+  const baseName = requestedName
+    || (fragmentElement && (getAttribute(fragmentElement, SECTION_ATTRIBUTE) || getAttribute(fragmentElement, "id") || fragmentElement.tagName))
+    || "section";
+  const name = uniqueName(baseName, used);
+  const normalized = normalizeSectionFragment(fragment, name);
+
+  let offset: number;
+  if (sections.length === 0) {
+    offset = html.search(/<\/body>/i);
+    if (offset === -1) offset = html.length;
+  } else if (position <= 0) {
+    offset = sections[0].start;
+  } else {
+    offset = sections[Math.min(position, sections.length) - 1].end;
+  }
+
+  return { html: `${html.slice(0, offset)}\n${normalized}\n${html.slice(offset)}`, name };
+}
+
+export function extractStyleContext(html: string, maxLength = 6000): string {
+  const styles = Array.from(html.matchAll(/<style[^>]*>([\s\S]*?)<\/style>/gi)).map((match) => match[1].trim());
+  return styles.join("\n").slice(0, maxLength);
+}
@@ -0,0 +1,64 @@
+import { randomBytes } from "crypto";
+
+export const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 48) || "site";
+}
+
+export function generateProjectSlug(name: string): string {
+  return `${slugify(name)}-${randomBytes(3).toString("hex")}`;
+}
+
+// A hostname of dot-separated labels ending in a top-level domain, as left by
+// normalizeDomain.
+export const DOMAIN_PATTERN = /^(?=.{1,253}$)(?:[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/;
+
+export function normalizeDomain(value: string): string {
+  return value
+    .trim()
+    .toLowerCase()
+    .replace(/^https?:\/\//, "")
+    .replace(/\/.*$/, "")
+    .replace(/:\d+$/, "")
+    .replace(/^www\./, "");
+}
+
+export function renderSiteHtml(html: string, css: string | null): string {
+  if (css && !html.includes("<style>")) {
+    return html.replace("</head>", `<style>${css}</style></head>`);
+  }
+  return html;
+}
+
+export function renderNotFoundPage(): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>Site not found | SiteForgeAI</title>
+<style>
+  body { margin: 0; min-height: 100vh; display: flex; align-items: center; justify-content: center; font-family: Inter, system-ui, sans-serif; background: linear-gradient(135deg, #1a1a2e, #3B82F6); color: #fff; text-align: center; }
+  main { padding: 48px 32px; max-width: 480px; background: rgba(255, 255, 255, 0.08); border-radius: 24px; backdrop-filter: blur(12px); }
+  h1 { font-size: 64px; margin: 0 0 8px; }
+  p { opacity: 0.85; line-height: 1.6; }
+  a { color: #fff; font-weight: 600; }
+</style>
+</head>
+<body>
+<main>
+  <h1>404</h1>
+  <p>This site isn't published yet, or it no longer exists.</p>
+  <p>Built with <a href="https://siteforgeai.vercel.app">SiteForgeAI</a></p>
+</main>
+</body>
+</html>`;
+}
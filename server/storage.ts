@@ -4,41 +4,189 @@ import {
   templates,
   media,
   aiGenerations,
+  aiCreditLedger,
+  projectRevisions,
+  pages,
+  pageViews,
+  formSubmissions,
+  refreshTokens,
+  accountTokens,
+  apiKeys,
+  workspaces,
+  workspaceMembers,
+  workspaceInvitations,
+  processedWebhookEvents,
+  rateLimitCounters,
+  loginThrottles,
+  auditLogs,
+  jobs,
   type User,
   type InsertUser,
   type UserSafe,
+  type AdminUserFilter,
+  type AdminUserSummary,
+  type RefreshToken,
+  type InsertRefreshToken,
+  type Workspace,
+  type WorkspaceRole,
+  type WorkspaceWithRole,
+  type InsertWorkspace,
+  type WorkspaceMember,
+  type WorkspaceMemberSummary,
+  type WorkspaceInvitation,
+  type WorkspaceInvitationSummary,
+  type InsertWorkspaceInvitation,
+  type ApiKey,
+  type ApiKeySummary,
+  type InsertApiKey,
+  type AccountToken,
+  type AccountTokenPurpose,
+  type InsertAccountToken,
   type Project,
   type InsertProject,
+  type ProjectRevision,
+  type ProjectRevisionSummary,
+  type InsertProjectRevision,
+  type Page,
+  type InsertPage,
+  type InsertPageView,
+  type FormSubmission,
+  type InsertFormSubmission,
+  type AnalyticsReport,
   type Template,
   type InsertTemplate,
   type Media as MediaType,
   type InsertMedia,
   type AiGeneration,
+  type InsertAiGeneration,
+  type AiUsageGroup,
+  type AiUsageFilter,
+  type AiUsageReportRow,
+  type AiUsage,
+  type AiCreditEntry,
+  type InsertAiCreditEntry,
+  type AiCreditEntryWithProject,
+  type AuditLog,
+  type InsertAuditLog,
+  type AuditLogFilter,
+  type LoginThrottle,
+  type LoginThrottleScope,
+  type InsertLoginThrottle,
+  type RateLimitCounter,
+  type Job,
+  type InsertJob,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, count } from "drizzle-orm";
+import { generateProjectSlug } from "./site";
+import { formatBytes } from "./media";
+import { getPlan, isSubscriptionBlocked, graceEndsAt, billingPeriod } from "./plans";
+import { encodeCursor } from "./cursor";
+import { eq, desc, asc, and, or, count, countDistinct, sum, lt, lte, gt, gte, max, isNull, isNotNull, ilike, notExists, inArray, getTableColumns, sql, type AnyColumn, type SQL } from "drizzle-orm";
 
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
+  getUserByStripeCustomerId(customerId: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
-  getAllUsers(): Promise<UserSafe[]>;
+  searchUsers(filter: AdminUserFilter, options: { limit: number; after?: string[] }): Promise<{
+    users: AdminUserSummary[];
+    nextCursor: string | null;
+  }>;
   updateUserRole(id: string, role: "ADMIN" | "CLIENT"): Promise<UserSafe | undefined>;
+  suspendUser(id: string, reason: string | null): Promise<UserSafe | undefined>;
+  reactivateUser(id: string): Promise<UserSafe | undefined>;
   deleteUser(id: string): Promise<boolean>;
+  incrementTokenVersion(userId: string): Promise<number | undefined>;
+  updateUserPassword(id: string, passwordHash: string): Promise<void>;
+  markEmailVerified(id: string): Promise<void>;
+
+  createRefreshToken(token: InsertRefreshToken): Promise<RefreshToken>;
+  getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined>;
+  rotateRefreshToken(id: string, replacement: InsertRefreshToken): Promise<RefreshToken | undefined>;
+  revokeRefreshTokenFamily(familyId: string): Promise<void>;
+  revokeUserRefreshTokens(userId: string): Promise<void>;
+
+  getApiKeys(userId: string): Promise<ApiKeySummary[]>;
+  countActiveApiKeys(userId: string): Promise<number>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined>;
+  createApiKey(apiKey: InsertApiKey): Promise<ApiKey>;
+  revokeApiKey(userId: string, id: string): Promise<boolean>;
+  touchApiKey(id: string): Promise<void>;
+
+  replaceAccountToken(token: InsertAccountToken): Promise<AccountToken>;
+  consumeAccountToken(tokenHash: string, purpose: AccountTokenPurpose): Promise<AccountToken | undefined>;
+
+  getWorkspace(id: string): Promise<Workspace | undefined>;
+  getWorkspaceByStripeCustomerId(customerId: string): Promise<Workspace | undefined>;
+  getPersonalWorkspace(userId: string): Promise<Workspace | undefined>;
+  ensurePersonalWorkspace(user: User): Promise<Workspace>;
+  getUserWorkspaces(userId: string): Promise<WorkspaceWithRole[]>;
+  createWorkspace(workspace: InsertWorkspace): Promise<Workspace>;
+  updateWorkspace(id: string, update: { name: string }): Promise<Workspace | undefined>;
+  deleteWorkspace(id: string): Promise<boolean>;
+  countWorkspaceProjects(workspaceId: string): Promise<number>;
+  backfillWorkspaces(): Promise<number>;
+
+  getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined>;
+  getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberSummary[]>;
+  updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMember | undefined>;
+  removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean>;
+
+  createWorkspaceInvitation(invitation: InsertWorkspaceInvitation): Promise<WorkspaceInvitationSummary>;
+  getWorkspaceInvitations(workspaceId: string): Promise<WorkspaceInvitationSummary[]>;
+  getWorkspaceInvitationByHash(tokenHash: string): Promise<WorkspaceInvitation | undefined>;
+  deleteWorkspaceInvitation(workspaceId: string, id: string): Promise<boolean>;
+  acceptWorkspaceInvitation(invitation: WorkspaceInvitation, userId: string): Promise<boolean>;
 
-  getProjects(userId: string): Promise<Project[]>;
+  getProjects(userId: string, workspaceId?: string): Promise<Project[]>;
   getProject(id: string): Promise<Project | undefined>;
+  getProjectBySlug(slug: string): Promise<Project | undefined>;
+  getProjectByDomain(domain: string): Promise<Project | undefined>;
   createProject(project: InsertProject & { userId: string }): Promise<Project>;
   updateProject(id: string, project: Partial<InsertProject>): Promise<Project | undefined>;
   deleteProject(id: string): Promise<boolean>;
   getAllProjectsCount(): Promise<number>;
   getPublishedProjectsCount(): Promise<number>;
 
+  getProjectRevisions(projectId: string): Promise<ProjectRevisionSummary[]>;
+  getProjectRevision(projectId: string, revisionId: string): Promise<ProjectRevision | undefined>;
+  createProjectRevision(revision: InsertProjectRevision): Promise<ProjectRevision>;
+
+  getPages(projectId: string): Promise<Page[]>;
+  countPages(projectId: string): Promise<number>;
+  getPage(projectId: string, pageId: string): Promise<Page | undefined>;
+  getPageBySlug(projectId: string, slug: string): Promise<Page | undefined>;
+  createPage(page: InsertPage): Promise<Page>;
+  updatePage(id: string, page: Partial<InsertPage>): Promise<Page | undefined>;
+  deletePage(id: string): Promise<boolean>;
+  reorderPages(projectId: string, pageIds: string[]): Promise<void>;
+
+  recordPageView(view: InsertPageView): Promise<void>;
+  getProjectAnalytics(projectId: string, since: Date): Promise<AnalyticsReport>;
+  getPlatformAnalytics(since: Date): Promise<AnalyticsReport & {
+    topProjects: { projectId: string; name: string; pageViews: number }[];
+  }>;
+
+  createFormSubmission(submission: InsertFormSubmission): Promise<FormSubmission>;
+  countRecentFormSubmissions(projectId: string, ipHash: string, since: Date): Promise<number>;
+  getFormSubmissions(projectId: string, options?: { unreadOnly?: boolean; limit?: number; offset?: number }): Promise<{
+    submissions: FormSubmission[];
+    total: number;
+    unread: number;
+  }>;
+  getFormSubmission(projectId: string, submissionId: string): Promise<FormSubmission | undefined>;
+  updateFormSubmission(id: string, update: { isRead: boolean }): Promise<FormSubmission | undefined>;
+  deleteFormSubmission(id: string): Promise<boolean>;
+
   getTemplates(): Promise<Template[]>;
   getTemplate(id: string): Promise<Template | undefined>;
   createTemplate(template: InsertTemplate): Promise<Template>;
+  updateTemplate(id: string, template: Partial<Template>): Promise<Template | undefined>;
+  deleteTemplate(id: string): Promise<boolean>;
 
-  getMedia(userId: string): Promise<MediaType[]>;
+  getMedia(userId: string, workspaceId?: string): Promise<MediaType[]>;
+  getMediaItem(id: string): Promise<MediaType | undefined>;
+  getStorageUsed(workspaceId: string): Promise<number>;
   createMedia(mediaItem: InsertMedia & { userId: string }): Promise<MediaType>;
   deleteMedia(id: string): Promise<boolean>;
 
@@ -56,17 +204,123 @@ export interface IStorage {
     activeUsers: number;
   }>;
 
-  getAiUsage(userId: string): Promise<{ used: number; limit: number; remaining: number }>;
-  incrementAiUsage(userId: string): Promise<boolean>;
-  logAiGeneration(userId: string, prompt: string, result: string, tokensUsed: number): Promise<AiGeneration>;
+  getAiUsage(workspaceId: string): Promise<AiUsage>;
+  rollOverAiCredits(workspaceId: string, now?: Date): Promise<Workspace | undefined>;
+  getWorkspacesDueForCreditReset(now: Date, limit: number): Promise<string[]>;
+  getLapsedSubscriptions(endedBefore: Date): Promise<Workspace[]>;
+  reserveAiCredit(debit: Omit<InsertAiCreditEntry, "kind" | "amount" | "status">): Promise<
+    { entry: AiCreditEntry } | { reason: "blocked" | "exhausted" }
+  >;
+  commitAiCredit(id: string, projectId: string | null): Promise<boolean>;
+  refundAiCredit(id: string, description: string): Promise<AiCreditEntry | undefined>;
+  getStaleAiCreditReservations(reservedBefore: Date): Promise<AiCreditEntry[]>;
+  getAiCreditLedger(workspaceId: string, options?: { limit?: number; offset?: number }): Promise<{
+    entries: AiCreditEntryWithProject[];
+    total: number;
+  }>;
+  adjustAiCredits(adjustment: Pick<InsertAiCreditEntry, "workspaceId" | "userId" | "amount" | "description">): Promise<AiCreditEntry>;
+  backfillAiCreditLedger(): Promise<number>;
+  logAiGeneration(generation: InsertAiGeneration): Promise<AiGeneration>;
+  getAiGenerations(userId: string, options?: { limit?: number; offset?: number }): Promise<{
+    entries: AiGeneration[];
+    total: number;
+  }>;
+  getAiUsageReport(groupBy: AiUsageGroup, filter: AiUsageFilter): Promise<AiUsageReportRow[]>;
   
-  getSubscriptionStatus(userId: string): Promise<{
+  getSubscriptionStatus(workspaceId: string): Promise<{
     planType: string;
     status: string;
     isBlocked: boolean;
     canUseAi: boolean;
+    graceEndsAt: Date | null;
   }>;
-  updateSubscription(userId: string, planType: "free" | "pro" | "enterprise", status: "free" | "active" | "past_due" | "cancelled"): Promise<void>;
+  updateSubscription(workspaceId: string, planType: "free" | "pro" | "enterprise", status: "free" | "active" | "past_due" | "cancelled"): Promise<void>;
+  updateStripeDetails(workspaceId: string, details: {
+    stripeCustomerId?: string | null;
+    stripeSubscriptionId?: string | null;
+    subscriptionEndDate?: Date | null;
+  }): Promise<void>;
+
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: string): Promise<Job | undefined>;
+  claimNextJob(perUserLimit: number): Promise<Job | undefined>;
+  touchJob(id: string): Promise<void>;
+  completeJob(id: string, projectId: string | null): Promise<void>;
+  failJob(id: string, error: string, retryAt: Date | null): Promise<void>;
+  requeueStaleJobs(lockedBefore: Date): Promise<number>;
+
+  processWebhookEventOnce(id: string, type: string, handle: () => Promise<void>): Promise<boolean>;
+
+  createAuditLog(entry: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(filter: AuditLogFilter, options?: { limit?: number; offset?: number }): Promise<{
+    entries: AuditLog[];
+    total: number;
+  }>;
+
+  hitRateLimit(key: string, windowMs: number): Promise<{ count: number; resetAt: Date }>;
+  resetRateLimit(key: string): Promise<void>;
+  pruneRateLimits(): Promise<number>;
+
+  getLoginThrottles(identifiers: { scope: LoginThrottleScope; identifier: string }[]): Promise<LoginThrottle[]>;
+  recordLoginFailure(scope: LoginThrottleScope, identifier: string, windowStart: Date): Promise<LoginThrottle>;
+  lockLoginThrottle(id: string, lockedUntil: Date): Promise<void>;
+  clearLoginThrottle(scope: LoginThrottleScope, identifier: string): Promise<void>;
+  getActiveLoginLockouts(): Promise<LoginThrottle[]>;
+  deleteLoginThrottle(id: string): Promise<LoginThrottle | undefined>;
+  pruneLoginThrottles(lastFailureBefore: Date): Promise<number>;
+}
+
+// Credits a workspace has used: debits count -1, refunds and grants +1.
+const aiCreditsUsed = sql<number>`coalesce(-sum(${aiCreditLedger.amount}), 0)`.mapWith(Number);
+// The same, leaving out reservations still in flight.
+const settledAiCreditsUsed = sql<number>`
+  coalesce(-sum(${aiCreditLedger.amount}) filter (where ${aiCreditLedger.status} is distinct from 'reserved'), 0)
+`.mapWith(Number);
+
+// The user columns that are safe to return from admin endpoints.
+const userSafeColumns = {
+  id: users.id,
+  email: users.email,
+  name: users.name,
+  role: users.role,
+  avatarUrl: users.avatarUrl,
+  emailVerified: users.emailVerified,
+  aiGenerationsUsed: users.aiGenerationsUsed,
+  aiGenerationsLimit: users.aiGenerationsLimit,
+  planType: users.planType,
+  subscriptionStatus: users.subscriptionStatus,
+  stripeCustomerId: users.stripeCustomerId,
+  stripeSubscriptionId: users.stripeSubscriptionId,
+  subscriptionEndDate: users.subscriptionEndDate,
+  suspendedAt: users.suspendedAt,
+  suspendedReason: users.suspendedReason,
+  createdAt: users.createdAt,
+};
+
+// Columns the admin user list can be sorted by, with their Postgres types for
+// comparing against a cursor.
+const USER_SORT_COLUMNS: Record<AdminUserFilter["sort"], { column: AnyColumn; type: string }> = {
+  createdAt: { column: users.createdAt, type: "timestamp" },
+  email: { column: users.email, type: "text" },
+  name: { column: users.name, type: "text" },
+};
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// The columns an update may set, typed against the selected row: with
+// strictNullChecks off, drizzle's own insert and `.set()` types only keep the
+// required columns. Any column may also be set to a SQL expression.
+type RowUpdate<T> = { [K in keyof T]?: T[K] | SQL };
+
+function samePeriod(workspace: Workspace, now: Date): boolean {
+  return workspace.creditPeriodStart?.getTime() === billingPeriod(workspace, now).start.getTime();
+}
+
+function subscriptionState(workspace: Workspace, used: number) {
+  const isBlocked = isSubscriptionBlocked(workspace);
+  const limit = getPlan(workspace.planType).monthlyAiCredits;
+  const hasCredits = limit === null || used < limit;
+  return { isBlocked, canUseAi: !isBlocked && hasCredits };
 }
 
 export class DatabaseStorage implements IStorage {
@@ -80,31 +334,67 @@ export class DatabaseStorage implements IStorage {
     return user || undefined;
   }
 
+  async getUserByStripeCustomerId(customerId: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.stripeCustomerId, customerId));
+    return user || undefined;
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const [user] = await db.insert(users).values(insertUser).returning();
     return user;
   }
 
-  async getAllUsers(): Promise<UserSafe[]> {
-    const allUsers = await db
+  /**
+   * One page of users for the admin list, with their personal workspace's
+   * plan. Pages are keyed on the sort column and id rather than an offset;
+   * `after` is the decoded cursor of the previous page.
+   */
+  async searchUsers(
+    filter: AdminUserFilter,
+    options: { limit: number; after?: string[] }
+  ): Promise<{ users: AdminUserSummary[]; nextCursor: string | null }> {
+    const { column, type } = USER_SORT_COLUMNS[filter.sort];
+    const direction = filter.order === "asc" ? asc : desc;
+
+    const conditions: SQL[] = [];
+    if (filter.q) {
+      const pattern = `%${filter.q.replace(/[\\%_]/g, "\\$&")}%`;
+      conditions.push(or(ilike(users.email, pattern), ilike(users.name, pattern))!);
+    }
+    if (filter.role) conditions.push(eq(users.role, filter.role));
+    if (filter.status === "active") conditions.push(isNull(users.suspendedAt));
+    if (filter.status === "suspended") conditions.push(isNotNull(users.suspendedAt));
+    if (filter.plan) conditions.push(eq(workspaces.planType, filter.plan));
+    if (filter.subscriptionStatus) conditions.push(eq(workspaces.subscriptionStatus, filter.subscriptionStatus));
+    if (options.after) {
+      const [value, id] = options.after;
+      const comparison = sql.raw(filter.order === "asc" ? ">" : "<");
+      conditions.push(sql`(${column}, ${users.id}) ${comparison} (cast(${value} as ${sql.raw(type)}), ${id})`);
+    }
+
+    const rows = await db
       .select({
-        id: users.id,
-        email: users.email,
-        name: users.name,
-        role: users.role,
-        avatarUrl: users.avatarUrl,
-        aiGenerationsUsed: users.aiGenerationsUsed,
-        aiGenerationsLimit: users.aiGenerationsLimit,
-        planType: users.planType,
-        subscriptionStatus: users.subscriptionStatus,
-        stripeCustomerId: users.stripeCustomerId,
-        stripeSubscriptionId: users.stripeSubscriptionId,
-        subscriptionEndDate: users.subscriptionEndDate,
-        createdAt: users.createdAt,
+        ...userSafeColumns,
+        personalWorkspace: {
+          id: workspaces.id,
+          planType: workspaces.planType,
+          subscriptionStatus: workspaces.subscriptionStatus,
+        },
+        // Read back as text so timestamps keep their full precision.
+        sortValue: sql<string>`${column}::text`,
       })
       .from(users)
-      .orderBy(desc(users.createdAt));
-    return allUsers;
+      .leftJoin(workspaces, and(eq(workspaces.ownerId, users.id), eq(workspaces.isPersonal, true)))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(direction(column), direction(users.id))
+      .limit(options.limit + 1);
+
+    const page = rows.slice(0, options.limit);
+    const last = page[page.length - 1];
+    return {
+      users: page.map(({ sortValue, ...user }) => user),
+      nextCursor: rows.length > options.limit && last ? encodeCursor([last.sortValue, last.id]) : null,
+    };
   }
 
   async updateUserRole(id: string, role: "ADMIN" | "CLIENT"): Promise<UserSafe | undefined> {
@@ -112,21 +402,32 @@ export class DatabaseStorage implements IStorage {
       .update(users)
       .set({ role })
       .where(eq(users.id, id))
-      .returning({
-        id: users.id,
-        email: users.email,
-        name: users.name,
-        role: users.role,
-        avatarUrl: users.avatarUrl,
-        aiGenerationsUsed: users.aiGenerationsUsed,
-        aiGenerationsLimit: users.aiGenerationsLimit,
-        planType: users.planType,
-        subscriptionStatus: users.subscriptionStatus,
-        stripeCustomerId: users.stripeCustomerId,
-        stripeSubscriptionId: users.stripeSubscriptionId,
-        subscriptionEndDate: users.subscriptionEndDate,
-        createdAt: users.createdAt,
-      });
+      .returning(userSafeColumns);
+    return updated || undefined;
+  }
+
+  // Also bumps the token version, ending the user's current sessions.
+  async suspendUser(id: string, reason: string | null): Promise<UserSafe | undefined> {
+    const updateData: RowUpdate<User> = {
+      suspendedAt: new Date(),
+      suspendedReason: reason,
+      tokenVersion: sql`${users.tokenVersion} + 1`,
+    };
+    const [updated] = await db
+      .update(users)
+      .set(updateData)
+      .where(eq(users.id, id))
+      .returning(userSafeColumns);
+    return updated || undefined;
+  }
+
+  async reactivateUser(id: string): Promise<UserSafe | undefined> {
+    const updateData: RowUpdate<User> = { suspendedAt: null, suspendedReason: null };
+    const [updated] = await db
+      .update(users)
+      .set(updateData)
+      .where(eq(users.id, id))
+      .returning(userSafeColumns);
     return updated || undefined;
   }
 
@@ -135,21 +436,409 @@ export class DatabaseStorage implements IStorage {
     return result.length > 0;
   }
 
-  async getProjects(userId: string): Promise<Project[]> {
+  async incrementTokenVersion(userId: string): Promise<number | undefined> {
+    const updateData: RowUpdate<User> = { tokenVersion: sql`${users.tokenVersion} + 1` };
+    const [updated] = await db
+      .update(users)
+      .set(updateData)
+      .where(eq(users.id, userId))
+      .returning({ tokenVersion: users.tokenVersion });
+    return updated?.tokenVersion;
+  }
+
+  // Callers end the user's sessions themselves, with incrementTokenVersion
+  // and revokeUserRefreshTokens.
+  async updateUserPassword(id: string, passwordHash: string): Promise<void> {
+    const updateData: RowUpdate<User> = { password: passwordHash };
+    await db.update(users).set(updateData).where(eq(users.id, id));
+  }
+
+  async markEmailVerified(id: string): Promise<void> {
+    const updateData: RowUpdate<User> = { emailVerified: true };
+    await db.update(users).set(updateData).where(eq(users.id, id));
+  }
+
+  async createRefreshToken(token: InsertRefreshToken): Promise<RefreshToken> {
+    const [created] = await db.insert(refreshTokens).values(token).returning();
+    return created;
+  }
+
+  async getRefreshTokenByHash(tokenHash: string): Promise<RefreshToken | undefined> {
+    const [token] = await db.select().from(refreshTokens).where(eq(refreshTokens.tokenHash, tokenHash));
+    return token || undefined;
+  }
+
+  // Revokes the token and issues its replacement in one transaction. Returns
+  // undefined if the token was already revoked, so two concurrent refreshes
+  // with the same token can't both succeed.
+  async rotateRefreshToken(id: string, replacement: InsertRefreshToken): Promise<RefreshToken | undefined> {
+    const updateData: RowUpdate<RefreshToken> = { revokedAt: new Date() };
+    return db.transaction(async (tx) => {
+      const revoked = await tx
+        .update(refreshTokens)
+        .set(updateData)
+        .where(and(eq(refreshTokens.id, id), isNull(refreshTokens.revokedAt)))
+        .returning({ id: refreshTokens.id });
+      if (revoked.length === 0) {
+        return undefined;
+      }
+
+      const [created] = await tx.insert(refreshTokens).values(replacement).returning();
+      return created;
+    });
+  }
+
+  async revokeRefreshTokenFamily(familyId: string): Promise<void> {
+    const updateData: RowUpdate<RefreshToken> = { revokedAt: new Date() };
+    await db
+      .update(refreshTokens)
+      .set(updateData)
+      .where(and(eq(refreshTokens.familyId, familyId), isNull(refreshTokens.revokedAt)));
+  }
+
+  async revokeUserRefreshTokens(userId: string): Promise<void> {
+    const updateData: RowUpdate<RefreshToken> = { revokedAt: new Date() };
+    await db
+      .update(refreshTokens)
+      .set(updateData)
+      .where(and(eq(refreshTokens.userId, userId), isNull(refreshTokens.revokedAt)));
+  }
+
+  // Revoked keys are kept for reference but no longer listed.
+  async getApiKeys(userId: string): Promise<ApiKeySummary[]> {
+    return db
+      .select({
+        id: apiKeys.id,
+        name: apiKeys.name,
+        prefix: apiKeys.prefix,
+        scopes: apiKeys.scopes,
+        expiresAt: apiKeys.expiresAt,
+        lastUsedAt: apiKeys.lastUsedAt,
+        revokedAt: apiKeys.revokedAt,
+        createdAt: apiKeys.createdAt,
+      })
+      .from(apiKeys)
+      .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+
+  async countActiveApiKeys(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(apiKeys)
+      .where(and(eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)));
+    return result?.count || 0;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [apiKey] = await db.select().from(apiKeys).where(eq(apiKeys.keyHash, keyHash));
+    return apiKey || undefined;
+  }
+
+  async createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
+    const [created] = await db.insert(apiKeys).values(apiKey).returning();
+    return created;
+  }
+
+  async revokeApiKey(userId: string, id: string): Promise<boolean> {
+    const updateData: RowUpdate<ApiKey> = { revokedAt: new Date() };
+    const revoked = await db
+      .update(apiKeys)
+      .set(updateData)
+      .where(and(eq(apiKeys.id, id), eq(apiKeys.userId, userId), isNull(apiKeys.revokedAt)))
+      .returning({ id: apiKeys.id });
+    return revoked.length > 0;
+  }
+
+  async touchApiKey(id: string): Promise<void> {
+    const updateData: RowUpdate<ApiKey> = { lastUsedAt: new Date() };
+    await db.update(apiKeys).set(updateData).where(eq(apiKeys.id, id));
+  }
+
+  // Only the newest link of each kind works: issuing one deletes the user's
+  // earlier unused tokens for the same purpose.
+  async replaceAccountToken(token: InsertAccountToken): Promise<AccountToken> {
+    return db.transaction(async (tx) => {
+      await tx
+        .delete(accountTokens)
+        .where(and(
+          eq(accountTokens.userId, token.userId),
+          eq(accountTokens.purpose, token.purpose),
+          isNull(accountTokens.usedAt)
+        ));
+      const [created] = await tx.insert(accountTokens).values(token).returning();
+      return created;
+    });
+  }
+
+  async consumeAccountToken(tokenHash: string, purpose: AccountTokenPurpose): Promise<AccountToken | undefined> {
+    const updateData: RowUpdate<AccountToken> = { usedAt: new Date() };
+    const [consumed] = await db
+      .update(accountTokens)
+      .set(updateData)
+      .where(and(
+        eq(accountTokens.tokenHash, tokenHash),
+        eq(accountTokens.purpose, purpose),
+        isNull(accountTokens.usedAt),
+        gte(accountTokens.expiresAt, new Date())
+      ))
+      .returning();
+    return consumed || undefined;
+  }
+
+  async getWorkspace(id: string): Promise<Workspace | undefined> {
+    const [workspace] = await db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace || undefined;
+  }
+
+  async getWorkspaceByStripeCustomerId(customerId: string): Promise<Workspace | undefined> {
+    const [workspace] = await db.select().from(workspaces).where(eq(workspaces.stripeCustomerId, customerId));
+    return workspace || undefined;
+  }
+
+  async getPersonalWorkspace(userId: string): Promise<Workspace | undefined> {
+    const [workspace] = await db
+      .select()
+      .from(workspaces)
+      .where(and(eq(workspaces.ownerId, userId), eq(workspaces.isPersonal, true)));
+    return workspace || undefined;
+  }
+
+  // New personal workspaces start from the plan and credits that used to be
+  // kept on the user.
+  async ensurePersonalWorkspace(user: User): Promise<Workspace> {
+    const existing = await this.getPersonalWorkspace(user.id);
+    if (existing) return existing;
+
+    const values: InsertWorkspace = {
+      name: `${user.name}'s workspace`,
+      ownerId: user.id,
+      isPersonal: true,
+      aiGenerationsUsed: user.aiGenerationsUsed,
+      aiGenerationsLimit: user.aiGenerationsLimit,
+      planType: user.planType,
+      subscriptionStatus: user.subscriptionStatus,
+      stripeCustomerId: user.stripeCustomerId,
+      stripeSubscriptionId: user.stripeSubscriptionId,
+      subscriptionEndDate: user.subscriptionEndDate,
+    };
+    const created = await db.transaction(async (tx) => {
+      const [workspace] = await tx.insert(workspaces).values(values).onConflictDoNothing().returning();
+      if (workspace) {
+        await tx.insert(workspaceMembers).values({ workspaceId: workspace.id, userId: user.id, role: "owner" });
+      }
+      return workspace;
+    });
+    // Another request created it first.
+    return created || (await this.getPersonalWorkspace(user.id))!;
+  }
+
+  async getUserWorkspaces(userId: string): Promise<WorkspaceWithRole[]> {
+    return db
+      .select({ ...getTableColumns(workspaces), role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(desc(workspaces.isPersonal), asc(workspaces.name));
+  }
+
+  async createWorkspace(workspace: InsertWorkspace): Promise<Workspace> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx.insert(workspaces).values(workspace).returning();
+      await tx.insert(workspaceMembers).values({ workspaceId: created.id, userId: created.ownerId, role: "owner" });
+      return created;
+    });
+  }
+
+  async updateWorkspace(id: string, update: { name: string }): Promise<Workspace | undefined> {
+    const updateData: RowUpdate<Workspace> = { ...update, updatedAt: new Date() };
+    const [updated] = await db.update(workspaces).set(updateData).where(eq(workspaces.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteWorkspace(id: string): Promise<boolean> {
+    const result = await db.delete(workspaces).where(eq(workspaces.id, id)).returning({ id: workspaces.id });
+    return result.length > 0;
+  }
+
+  async countWorkspaceProjects(workspaceId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(projects)
+      .where(eq(projects.workspaceId, workspaceId));
+    return result?.count || 0;
+  }
+
+  // Gives every user a personal workspace and moves projects and media that
+  // predate workspaces into their owner's. Safe to run on every start.
+  async backfillWorkspaces(): Promise<number> {
+    const usersWithoutWorkspace = await db
+      .select()
+      .from(users)
+      .where(sql`NOT EXISTS (
+        SELECT 1 FROM ${workspaces} WHERE ${workspaces.ownerId} = ${users.id} AND ${workspaces.isPersonal}
+      )`);
+    for (const user of usersWithoutWorkspace) {
+      await this.ensurePersonalWorkspace(user);
+    }
+
+    const projectWorkspace: RowUpdate<Project> = {
+      workspaceId: sql`(SELECT ${workspaces.id} FROM ${workspaces} WHERE ${workspaces.ownerId} = ${projects.userId} AND ${workspaces.isPersonal})`,
+    };
+    await db.update(projects).set(projectWorkspace).where(isNull(projects.workspaceId));
+
+    const mediaWorkspace: RowUpdate<MediaType> = {
+      workspaceId: sql`(SELECT ${workspaces.id} FROM ${workspaces} WHERE ${workspaces.ownerId} = ${media.userId} AND ${workspaces.isPersonal})`,
+    };
+    await db.update(media).set(mediaWorkspace).where(isNull(media.workspaceId));
+
+    return usersWithoutWorkspace.length;
+  }
+
+  async getWorkspaceMember(workspaceId: string, userId: string): Promise<WorkspaceMember | undefined> {
+    const [member] = await db
+      .select()
+      .from(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)));
+    return member || undefined;
+  }
+
+  async getWorkspaceMembers(workspaceId: string): Promise<WorkspaceMemberSummary[]> {
+    return db
+      .select({
+        userId: workspaceMembers.userId,
+        role: workspaceMembers.role,
+        createdAt: workspaceMembers.createdAt,
+        name: users.name,
+        email: users.email,
+        avatarUrl: users.avatarUrl,
+      })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(workspaceMembers.userId, users.id))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(asc(workspaceMembers.createdAt));
+  }
+
+  async updateWorkspaceMemberRole(workspaceId: string, userId: string, role: WorkspaceRole): Promise<WorkspaceMember | undefined> {
+    const [updated] = await db
+      .update(workspaceMembers)
+      .set({ role })
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+      .returning();
+    return updated || undefined;
+  }
+
+  async removeWorkspaceMember(workspaceId: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+      .returning({ id: workspaceMembers.id });
+    return result.length > 0;
+  }
+
+  async createWorkspaceInvitation(invitation: InsertWorkspaceInvitation): Promise<WorkspaceInvitationSummary> {
+    const [{ tokenHash, ...created }] = await db.insert(workspaceInvitations).values(invitation).returning();
+    return created;
+  }
+
+  // Pending invitations only: not yet accepted and not expired.
+  async getWorkspaceInvitations(workspaceId: string): Promise<WorkspaceInvitationSummary[]> {
+    const { tokenHash, ...columns } = getTableColumns(workspaceInvitations);
+    return db
+      .select(columns)
+      .from(workspaceInvitations)
+      .where(and(
+        eq(workspaceInvitations.workspaceId, workspaceId),
+        isNull(workspaceInvitations.acceptedAt),
+        gte(workspaceInvitations.expiresAt, new Date())
+      ))
+      .orderBy(desc(workspaceInvitations.createdAt));
+  }
+
+  async getWorkspaceInvitationByHash(tokenHash: string): Promise<WorkspaceInvitation | undefined> {
+    const [invitation] = await db
+      .select()
+      .from(workspaceInvitations)
+      .where(eq(workspaceInvitations.tokenHash, tokenHash));
+    return invitation || undefined;
+  }
+
+  async deleteWorkspaceInvitation(workspaceId: string, id: string): Promise<boolean> {
+    const result = await db
+      .delete(workspaceInvitations)
+      .where(and(eq(workspaceInvitations.id, id), eq(workspaceInvitations.workspaceId, workspaceId)))
+      .returning({ id: workspaceInvitations.id });
+    return result.length > 0;
+  }
+
+  // Marks the invitation used and adds the member in one transaction. Returns
+  // false if it was already accepted. Existing members keep their role.
+  async acceptWorkspaceInvitation(invitation: WorkspaceInvitation, userId: string): Promise<boolean> {
+    const updateData: RowUpdate<WorkspaceInvitation> = { acceptedAt: new Date() };
+    return db.transaction(async (tx) => {
+      const accepted = await tx
+        .update(workspaceInvitations)
+        .set(updateData)
+        .where(and(eq(workspaceInvitations.id, invitation.id), isNull(workspaceInvitations.acceptedAt)))
+        .returning({ id: workspaceInvitations.id });
+      if (accepted.length === 0) {
+        return false;
+      }
+
+      // Invitations sent before owner invites were refused join as editors.
+      const role = invitation.role === "owner" ? "editor" : invitation.role;
+      await tx
+        .insert(workspaceMembers)
+        .values({ workspaceId: invitation.workspaceId, userId, role })
+        .onConflictDoNothing();
+      return true;
+    });
+  }
+
+  // Projects the user can see: those in workspaces they belong to, optionally
+  // narrowed to one workspace.
+  async getProjects(userId: string, workspaceId?: string): Promise<Project[]> {
     return db
       .select()
       .from(projects)
-      .where(eq(projects.userId, userId))
+      .where(workspaceId ? eq(projects.workspaceId, workspaceId) : or(
+        inArray(projects.workspaceId, this.memberWorkspaceIds(userId)),
+        and(isNull(projects.workspaceId), eq(projects.userId, userId))
+      ))
       .orderBy(desc(projects.createdAt));
   }
 
+  private memberWorkspaceIds(userId: string) {
+    return db
+      .select({ id: workspaceMembers.workspaceId })
+      .from(workspaceMembers)
+      .where(eq(workspaceMembers.userId, userId));
+  }
+
   async getProject(id: string): Promise<Project | undefined> {
     const [project] = await db.select().from(projects).where(eq(projects.id, id));
     return project || undefined;
   }
 
+  async getProjectBySlug(slug: string): Promise<Project | undefined> {
+    const [project] = await db.select().from(projects).where(eq(projects.slug, slug));
+    return project || undefined;
+  }
+
+  async getProjectByDomain(domain: string): Promise<Project | undefined> {
+    const [project] = await db
+      .select()
+      .from(projects)
+      .where(eq(projects.domain, domain));
+    return project || undefined;
+  }
+
   async createProject(project: InsertProject & { userId: string }): Promise<Project> {
-    const [newProject] = await db.insert(projects).values(project).returning();
+    const { slug, name } = project as Partial<Project>;
+    const [newProject] = await db
+      .insert(projects)
+      .values({ ...project, slug: slug || generateProjectSlug(name || "site") })
+      .returning();
     return newProject;
   }
 
@@ -180,6 +869,265 @@ export class DatabaseStorage implements IStorage {
     return result?.count || 0;
   }
 
+  async getProjectRevisions(projectId: string): Promise<ProjectRevisionSummary[]> {
+    return db
+      .select({
+        id: projectRevisions.id,
+        projectId: projectRevisions.projectId,
+        userId: projectRevisions.userId,
+        source: projectRevisions.source,
+        sectionName: projectRevisions.sectionName,
+        instructions: projectRevisions.instructions,
+        restoredFromId: projectRevisions.restoredFromId,
+        createdAt: projectRevisions.createdAt,
+      })
+      .from(projectRevisions)
+      .where(eq(projectRevisions.projectId, projectId))
+      .orderBy(desc(projectRevisions.createdAt));
+  }
+
+  async getProjectRevision(projectId: string, revisionId: string): Promise<ProjectRevision | undefined> {
+    const [revision] = await db
+      .select()
+      .from(projectRevisions)
+      .where(and(eq(projectRevisions.id, revisionId), eq(projectRevisions.projectId, projectId)));
+    return revision || undefined;
+  }
+
+  async createProjectRevision(revision: InsertProjectRevision): Promise<ProjectRevision> {
+    const [newRevision] = await db.insert(projectRevisions).values(revision).returning();
+    return newRevision;
+  }
+
+  async getPages(projectId: string): Promise<Page[]> {
+    return db
+      .select()
+      .from(pages)
+      .where(eq(pages.projectId, projectId))
+      .orderBy(asc(pages.position), asc(pages.createdAt));
+  }
+
+  async countPages(projectId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(pages)
+      .where(eq(pages.projectId, projectId));
+    return result?.count || 0;
+  }
+
+  async getPage(projectId: string, pageId: string): Promise<Page | undefined> {
+    const [page] = await db
+      .select()
+      .from(pages)
+      .where(and(eq(pages.id, pageId), eq(pages.projectId, projectId)));
+    return page || undefined;
+  }
+
+  async getPageBySlug(projectId: string, slug: string): Promise<Page | undefined> {
+    const [page] = await db
+      .select()
+      .from(pages)
+      .where(and(eq(pages.projectId, projectId), eq(pages.slug, slug)));
+    return page || undefined;
+  }
+
+  // New pages go to the end of the navigation unless a position is given.
+  async createPage(page: InsertPage): Promise<Page> {
+    let position = page.position;
+    if (position === undefined || position === null) {
+      const [result] = await db
+        .select({ last: max(pages.position) })
+        .from(pages)
+        .where(eq(pages.projectId, page.projectId));
+      position = result?.last === null || result?.last === undefined ? 0 : result.last + 1;
+    }
+
+    const values: InsertPage = { ...page, position };
+    const [newPage] = await db.insert(pages).values(values).returning();
+    return newPage;
+  }
+
+  async updatePage(id: string, page: Partial<InsertPage>): Promise<Page | undefined> {
+    const updateData: RowUpdate<Page> = { ...page, updatedAt: new Date() };
+
+    const [updated] = await db
+      .update(pages)
+      .set(updateData)
+      .where(eq(pages.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deletePage(id: string): Promise<boolean> {
+    const result = await db.delete(pages).where(eq(pages.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async reorderPages(projectId: string, pageIds: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      for (const [position, id] of pageIds.entries()) {
+        const updateData: RowUpdate<Page> = { position, updatedAt: new Date() };
+        await tx
+          .update(pages)
+          .set(updateData)
+          .where(and(eq(pages.id, id), eq(pages.projectId, projectId)));
+      }
+    });
+  }
+
+  async recordPageView(view: InsertPageView): Promise<void> {
+    await db.insert(pageViews).values(view);
+  }
+
+  private async buildAnalyticsReport(filter: SQL | undefined, since: Date): Promise<AnalyticsReport> {
+    const where = and(filter, gte(pageViews.createdAt, since));
+    const day = sql<string>`to_char(${pageViews.createdAt}, 'YYYY-MM-DD')`;
+
+    const [totals] = await db
+      .select({ pageViews: count(), visitors: countDistinct(pageViews.visitorId) })
+      .from(pageViews)
+      .where(where);
+
+    const days = await db
+      .select({ date: day, pageViews: count(), visitors: countDistinct(pageViews.visitorId) })
+      .from(pageViews)
+      .where(where)
+      .groupBy(day)
+      .orderBy(day);
+
+    const byPage = await db
+      .select({ path: pageViews.path, pageViews: count(), visitors: countDistinct(pageViews.visitorId) })
+      .from(pageViews)
+      .where(where)
+      .groupBy(pageViews.path)
+      .orderBy(desc(count()))
+      .limit(20);
+
+    const referrers = await db
+      .select({ referrer: pageViews.referrer, pageViews: count() })
+      .from(pageViews)
+      .where(where)
+      .groupBy(pageViews.referrer)
+      .orderBy(desc(count()))
+      .limit(20);
+
+    const byDevice = await db
+      .select({ device: pageViews.device, pageViews: count() })
+      .from(pageViews)
+      .where(where)
+      .groupBy(pageViews.device)
+      .orderBy(desc(count()));
+
+    // Days without views are reported as zeros so charts have no gaps.
+    const counts = new Map(days.map((row) => [row.date, row]));
+    const byDay: AnalyticsReport["byDay"] = [];
+    for (const date = new Date(since); date <= new Date(); date.setUTCDate(date.getUTCDate() + 1)) {
+      const key = date.toISOString().slice(0, 10);
+      const row = counts.get(key);
+      byDay.push({ date: key, pageViews: row?.pageViews || 0, visitors: row?.visitors || 0 });
+    }
+
+    return {
+      since: since.toISOString(),
+      pageViews: totals?.pageViews || 0,
+      visitors: totals?.visitors || 0,
+      byDay,
+      byPage,
+      byReferrer: referrers.map((row) => ({ referrer: row.referrer || "direct", pageViews: row.pageViews })),
+      byDevice,
+    };
+  }
+
+  async getProjectAnalytics(projectId: string, since: Date): Promise<AnalyticsReport> {
+    return this.buildAnalyticsReport(eq(pageViews.projectId, projectId), since);
+  }
+
+  async getPlatformAnalytics(since: Date): Promise<AnalyticsReport & {
+    topProjects: { projectId: string; name: string; pageViews: number }[];
+  }> {
+    const report = await this.buildAnalyticsReport(undefined, since);
+
+    const topProjects = await db
+      .select({ projectId: pageViews.projectId, name: projects.name, pageViews: count() })
+      .from(pageViews)
+      .innerJoin(projects, eq(pageViews.projectId, projects.id))
+      .where(gte(pageViews.createdAt, since))
+      .groupBy(pageViews.projectId, projects.name)
+      .orderBy(desc(count()))
+      .limit(10);
+
+    return { ...report, topProjects };
+  }
+
+  async createFormSubmission(submission: InsertFormSubmission): Promise<FormSubmission> {
+    const [newSubmission] = await db.insert(formSubmissions).values(submission).returning();
+    return newSubmission;
+  }
+
+  async countRecentFormSubmissions(projectId: string, ipHash: string, since: Date): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(formSubmissions)
+      .where(and(
+        eq(formSubmissions.projectId, projectId),
+        eq(formSubmissions.ipHash, ipHash),
+        gte(formSubmissions.createdAt, since)
+      ));
+    return result?.count || 0;
+  }
+
+  async getFormSubmissions(
+    projectId: string,
+    options: { unreadOnly?: boolean; limit?: number; offset?: number } = {}
+  ): Promise<{ submissions: FormSubmission[]; total: number; unread: number }> {
+    const projectFilter = eq(formSubmissions.projectId, projectId);
+    const where = options.unreadOnly ? and(projectFilter, eq(formSubmissions.isRead, false)) : projectFilter;
+
+    let query = db
+      .select()
+      .from(formSubmissions)
+      .where(where)
+      .orderBy(desc(formSubmissions.createdAt))
+      .$dynamic();
+    if (options.limit !== undefined) query = query.limit(options.limit);
+    if (options.offset !== undefined) query = query.offset(options.offset);
+    const submissions = await query;
+
+    const [totals] = await db
+      .select({
+        total: count(),
+        unread: sql<number>`count(*) filter (where ${formSubmissions.isRead} = false)`.mapWith(Number),
+      })
+      .from(formSubmissions)
+      .where(projectFilter);
+
+    return { submissions, total: totals?.total || 0, unread: totals?.unread || 0 };
+  }
+
+  async getFormSubmission(projectId: string, submissionId: string): Promise<FormSubmission | undefined> {
+    const [submission] = await db
+      .select()
+      .from(formSubmissions)
+      .where(and(eq(formSubmissions.id, submissionId), eq(formSubmissions.projectId, projectId)));
+    return submission || undefined;
+  }
+
+  async updateFormSubmission(id: string, update: { isRead: boolean }): Promise<FormSubmission | undefined> {
+    const updateData: RowUpdate<FormSubmission> = { ...update };
+
+    const [updated] = await db
+      .update(formSubmissions)
+      .set(updateData)
+      .where(eq(formSubmissions.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteFormSubmission(id: string): Promise<boolean> {
+    const result = await db.delete(formSubmissions).where(eq(formSubmissions.id, id)).returning();
+    return result.length > 0;
+  }
+
   async getTemplates(): Promise<Template[]> {
     return db.select().from(templates).orderBy(desc(templates.createdAt));
   }
@@ -194,14 +1142,46 @@ export class DatabaseStorage implements IStorage {
     return newTemplate;
   }
 
-  async getMedia(userId: string): Promise<MediaType[]> {
+  async updateTemplate(id: string, template: Partial<Template>): Promise<Template | undefined> {
+    const updateData: RowUpdate<Template> = { ...template, updatedAt: new Date() };
+
+    const [updated] = await db
+      .update(templates)
+      .set(updateData)
+      .where(eq(templates.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteTemplate(id: string): Promise<boolean> {
+    const result = await db.delete(templates).where(eq(templates.id, id)).returning();
+    return result.length > 0;
+  }
+
+  async getMedia(userId: string, workspaceId?: string): Promise<MediaType[]> {
     return db
       .select()
       .from(media)
-      .where(eq(media.userId, userId))
+      .where(workspaceId ? eq(media.workspaceId, workspaceId) : or(
+        inArray(media.workspaceId, this.memberWorkspaceIds(userId)),
+        and(isNull(media.workspaceId), eq(media.userId, userId))
+      ))
       .orderBy(desc(media.createdAt));
   }
 
+  async getMediaItem(id: string): Promise<MediaType | undefined> {
+    const [item] = await db.select().from(media).where(eq(media.id, id));
+    return item || undefined;
+  }
+
+  async getStorageUsed(workspaceId: string): Promise<number> {
+    const [result] = await db
+      .select({ total: sum(media.size) })
+      .from(media)
+      .where(eq(media.workspaceId, workspaceId));
+    return Number(result?.total || 0);
+  }
+
   async createMedia(mediaItem: InsertMedia & { userId: string }): Promise<MediaType> {
     const [newMedia] = await db.insert(media).values(mediaItem).returning();
     return newMedia;
@@ -221,12 +1201,17 @@ export class DatabaseStorage implements IStorage {
     const userProjects = await this.getProjects(userId);
     const publishedCount = userProjects.filter((p) => p.status === "published").length;
     const templatesUsedCount = userProjects.filter((p) => p.templateId).length;
+    const [storage] = await db
+      .select({ total: sum(media.size) })
+      .from(media)
+      .where(inArray(media.workspaceId, this.memberWorkspaceIds(userId)));
+    const storageUsed = Number(storage?.total || 0);
 
     return {
       totalProjects: userProjects.length,
       publishedSites: publishedCount,
       templatesUsed: templatesUsedCount,
-      storageUsed: "0 MB",
+      storageUsed: formatBytes(storageUsed),
     };
   }
 
@@ -243,103 +1228,600 @@ export class DatabaseStorage implements IStorage {
       .from(projects)
       .where(eq(projects.status, "published"));
 
+    // Active means the user edited a project or ran an AI generation in the
+    // last 30 days.
+    const activeSince = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    const active = await db.execute<{ count: string }>(sql`
+      SELECT count(DISTINCT user_id) AS count FROM (
+        SELECT ${projects.userId} AS user_id FROM ${projects} WHERE ${projects.updatedAt} >= ${activeSince}
+        UNION
+        SELECT ${aiGenerations.userId} AS user_id FROM ${aiGenerations} WHERE ${aiGenerations.createdAt} >= ${activeSince}
+      ) activity
+    `);
+
     return {
       totalUsers: usersCount?.count || 0,
       totalProjects: projectsCount?.count || 0,
       publishedSites: publishedCount?.count || 0,
-      activeUsers: Math.floor((usersCount?.count || 0) * 0.7),
+      activeUsers: Number(active.rows[0]?.count || 0),
+    };
+  }
+
+  async getAiUsage(workspaceId: string): Promise<AiUsage> {
+    const workspace = await this.rollOverAiCredits(workspaceId);
+    const limit = getPlan(workspace?.planType || "free").monthlyAiCredits;
+    const used = workspace ? await this.getAiCreditsUsed(workspaceId) : 0;
+    return {
+      used,
+      limit,
+      remaining: limit === null ? null : Math.max(0, limit - used),
+      periodStart: workspace?.creditPeriodStart ?? null,
+      periodEnd: workspace?.creditPeriodEnd ?? null,
+      resetsAt: workspace?.creditPeriodEnd ?? null,
     };
   }
 
-  async getAiUsage(userId: string): Promise<{ used: number; limit: number; remaining: number }> {
-    const user = await this.getUser(userId);
-    if (!user) {
-      return { used: 0, limit: 3, remaining: 3 };
+  /**
+   * Starts a new credit allowance when the workspace's billing period has
+   * moved on since its last reset, by adding back the credits used. Credits
+   * granted by hand expire with the period too. Reservations still in flight
+   * are settled against the new period.
+   */
+  private async rollOverCredits(tx: Transaction, workspaceId: string, now: Date): Promise<Workspace | undefined> {
+    const [workspace] = await tx
+      .select()
+      .from(workspaces)
+      .where(eq(workspaces.id, workspaceId))
+      .for("update");
+    if (!workspace || samePeriod(workspace, now)) {
+      return workspace;
     }
-    const used = user.aiGenerationsUsed;
-    const limit = user.aiGenerationsLimit;
-    return { used, limit, remaining: Math.max(0, limit - used) };
-  }
-
-  async incrementAiUsage(userId: string): Promise<boolean> {
-    const user = await this.getUser(userId);
-    if (!user) return false;
-    
-    const hasPaidPlan = user.planType === "pro" || user.planType === "enterprise";
-    const isActiveSubscription = user.subscriptionStatus === "active";
-    
-    if (hasPaidPlan && isActiveSubscription) {
-      return true;
+
+    const [totals] = await tx
+      .select({ used: settledAiCreditsUsed })
+      .from(aiCreditLedger)
+      .where(eq(aiCreditLedger.workspaceId, workspaceId));
+    const used = totals?.used || 0;
+    if (used !== 0) {
+      const reset: InsertAiCreditEntry = {
+        workspaceId,
+        kind: "adjustment",
+        amount: used,
+        description: "Credits reset for a new billing period",
+      };
+      await tx.insert(aiCreditLedger).values(reset);
     }
-    
-    if (user.aiGenerationsUsed >= user.aiGenerationsLimit) {
-      return false;
+
+    const period = billingPeriod(workspace, now);
+    const updateData: RowUpdate<Workspace> = { creditPeriodStart: period.start, creditPeriodEnd: period.end };
+    const [updated] = await tx
+      .update(workspaces)
+      .set(updateData)
+      .where(eq(workspaces.id, workspaceId))
+      .returning();
+    return updated;
+  }
+
+  async rollOverAiCredits(workspaceId: string, now: Date = new Date()): Promise<Workspace | undefined> {
+    const workspace = await this.getWorkspace(workspaceId);
+    if (!workspace || samePeriod(workspace, now)) {
+      return workspace;
     }
+    return db.transaction((tx) => this.rollOverCredits(tx, workspaceId, now));
+  }
 
-    await db
-      .update(users)
-      .set({ aiGenerationsUsed: user.aiGenerationsUsed + 1 })
-      .where(eq(users.id, userId));
-    
-    return true;
+  async getWorkspacesDueForCreditReset(now: Date, limit: number): Promise<string[]> {
+    const due = await db
+      .select({ id: workspaces.id })
+      .from(workspaces)
+      .where(or(isNull(workspaces.creditPeriodEnd), lte(workspaces.creditPeriodEnd, now)))
+      .limit(limit);
+    return due.map((workspace) => workspace.id);
   }
 
-  async logAiGeneration(userId: string, prompt: string, result: string, tokensUsed: number): Promise<AiGeneration> {
-    const [generation] = await db
-      .insert(aiGenerations)
-      .values({ userId, prompt, result, tokensUsed })
-      .returning();
-    return generation;
+  // Paid subscriptions still marked active after their billing period ended.
+  async getLapsedSubscriptions(endedBefore: Date): Promise<Workspace[]> {
+    return db
+      .select()
+      .from(workspaces)
+      .where(and(
+        eq(workspaces.subscriptionStatus, "active"),
+        inArray(workspaces.planType, ["pro", "enterprise"]),
+        lt(workspaces.subscriptionEndDate, endedBefore)
+      ));
+  }
+
+  private async getAiCreditsUsed(workspaceId: string): Promise<number> {
+    const [totals] = await db
+      .select({ used: aiCreditsUsed })
+      .from(aiCreditLedger)
+      .where(eq(aiCreditLedger.workspaceId, workspaceId));
+    return totals?.used || 0;
+  }
+
+  /**
+   * Reserves one credit for a generation. The workspace row is locked while
+   * the balance is read and the debit inserted, so parallel requests can't
+   * spend the same credit.
+   */
+  async reserveAiCredit(debit: Omit<InsertAiCreditEntry, "kind" | "amount" | "status">): Promise<
+    { entry: AiCreditEntry } | { reason: "blocked" | "exhausted" }
+  > {
+    return db.transaction(async (tx) => {
+      const workspace = await this.rollOverCredits(tx, debit.workspaceId, new Date());
+      if (!workspace) {
+        throw new Error("Workspace not found");
+      }
+
+      const [totals] = await tx
+        .select({ used: aiCreditsUsed })
+        .from(aiCreditLedger)
+        .where(eq(aiCreditLedger.workspaceId, workspace.id));
+      const state = subscriptionState(workspace, totals?.used || 0);
+      if (state.isBlocked) return { reason: "blocked" as const };
+      if (!state.canUseAi) return { reason: "exhausted" as const };
+
+      const reservation: InsertAiCreditEntry = { ...debit, kind: "debit", status: "reserved", amount: -1 };
+      const [entry] = await tx.insert(aiCreditLedger).values(reservation).returning();
+      return { entry };
+    });
   }
 
-  async getSubscriptionStatus(userId: string): Promise<{
+  async commitAiCredit(id: string, projectId: string | null): Promise<boolean> {
+    const updateData: RowUpdate<AiCreditEntry> = { status: "committed", settledAt: new Date() };
+    if (projectId) {
+      updateData.projectId = projectId;
+    }
+    const committed = await db
+      .update(aiCreditLedger)
+      .set(updateData)
+      .where(and(eq(aiCreditLedger.id, id), eq(aiCreditLedger.status, "reserved")))
+      .returning({ id: aiCreditLedger.id });
+    return committed.length > 0;
+  }
+
+  // Returns the refund entry, or undefined if the debit was already settled.
+  async refundAiCredit(id: string, description: string): Promise<AiCreditEntry | undefined> {
+    return db.transaction(async (tx) => {
+      const updateData: RowUpdate<AiCreditEntry> = { status: "refunded", settledAt: new Date() };
+      const [debit] = await tx
+        .update(aiCreditLedger)
+        .set(updateData)
+        .where(and(eq(aiCreditLedger.id, id), eq(aiCreditLedger.status, "reserved")))
+        .returning();
+      if (!debit) return undefined;
+
+      const refund: InsertAiCreditEntry = {
+        workspaceId: debit.workspaceId,
+        userId: debit.userId,
+        projectId: debit.projectId,
+        kind: "refund",
+        amount: -debit.amount,
+        operation: debit.operation,
+        description,
+        debitId: debit.id,
+      };
+      const [entry] = await tx.insert(aiCreditLedger).values(refund).returning();
+      return entry;
+    });
+  }
+
+  // Reservations still held by a queued or running job aren't stale, however
+  // old: the job commits or refunds them itself once it finishes.
+  async getStaleAiCreditReservations(reservedBefore: Date): Promise<AiCreditEntry[]> {
+    return db
+      .select()
+      .from(aiCreditLedger)
+      .where(and(
+        eq(aiCreditLedger.status, "reserved"),
+        lt(aiCreditLedger.createdAt, reservedBefore),
+        notExists(
+          db
+            .select({ id: jobs.id })
+            .from(jobs)
+            .where(and(eq(jobs.creditId, aiCreditLedger.id), inArray(jobs.status, ["queued", "running"])))
+        )
+      ));
+  }
+
+  async getAiCreditLedger(
+    workspaceId: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<{ entries: AiCreditEntryWithProject[]; total: number }> {
+    const workspaceFilter = eq(aiCreditLedger.workspaceId, workspaceId);
+
+    let query = db
+      .select({ ...getTableColumns(aiCreditLedger), projectName: projects.name })
+      .from(aiCreditLedger)
+      .leftJoin(projects, eq(aiCreditLedger.projectId, projects.id))
+      .where(workspaceFilter)
+      .orderBy(desc(aiCreditLedger.createdAt))
+      .$dynamic();
+    if (options.limit !== undefined) query = query.limit(options.limit);
+    if (options.offset !== undefined) query = query.offset(options.offset);
+    const entries = await query;
+
+    const [totals] = await db.select({ total: count() }).from(aiCreditLedger).where(workspaceFilter);
+    return { entries, total: totals?.total || 0 };
+  }
+
+  // Grants credits (positive amounts) or takes them away (negative). The
+  // period rolls over first, so the adjustment isn't wiped by a reset that
+  // was already due.
+  async adjustAiCredits(
+    adjustment: Pick<InsertAiCreditEntry, "workspaceId" | "userId" | "amount" | "description">
+  ): Promise<AiCreditEntry> {
+    return db.transaction(async (tx) => {
+      const workspace = await this.rollOverCredits(tx, adjustment.workspaceId, new Date());
+      if (!workspace) {
+        throw new Error("Workspace not found");
+      }
+
+      const entry: InsertAiCreditEntry = { ...adjustment, kind: "adjustment" };
+      const [created] = await tx.insert(aiCreditLedger).values(entry).returning();
+      return created;
+    });
+  }
+
+  // Moves usage counted before the ledger existed into it as one opening
+  // adjustment per workspace.
+  async backfillAiCreditLedger(): Promise<number> {
+    const inserted = await db.execute(sql`
+      INSERT INTO ${aiCreditLedger} (workspace_id, kind, amount, description)
+      SELECT ${workspaces.id}, 'adjustment', -${workspaces.aiGenerationsUsed}, 'Usage before the credit ledger'
+      FROM ${workspaces}
+      WHERE ${workspaces.aiGenerationsUsed} > 0
+        AND NOT EXISTS (SELECT 1 FROM ${aiCreditLedger} WHERE ${aiCreditLedger.workspaceId} = ${workspaces.id})
+    `);
+    return inserted.rowCount || 0;
+  }
+
+  async logAiGeneration(generation: InsertAiGeneration): Promise<AiGeneration> {
+    const [logged] = await db.insert(aiGenerations).values(generation).returning();
+    return logged;
+  }
+
+  async getAiGenerations(
+    userId: string,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<{ entries: AiGeneration[]; total: number }> {
+    const userFilter = eq(aiGenerations.userId, userId);
+
+    let query = db
+      .select()
+      .from(aiGenerations)
+      .where(userFilter)
+      .orderBy(desc(aiGenerations.createdAt))
+      .$dynamic();
+    if (options.limit !== undefined) query = query.limit(options.limit);
+    if (options.offset !== undefined) query = query.offset(options.offset);
+    const entries = await query;
+
+    const [totals] = await db.select({ total: count() }).from(aiGenerations).where(userFilter);
+    return { entries, total: totals?.total || 0 };
+  }
+
+  async getAiUsageReport(groupBy: AiUsageGroup, filter: AiUsageFilter): Promise<AiUsageReportRow[]> {
+    const conditions: SQL[] = [];
+    if (filter.userId) conditions.push(eq(aiGenerations.userId, filter.userId));
+    if (filter.operation) conditions.push(eq(aiGenerations.operation, filter.operation));
+    if (filter.from) conditions.push(gte(aiGenerations.createdAt, filter.from));
+    if (filter.to) conditions.push(lte(aiGenerations.createdAt, filter.to));
+
+    const groupKeys: Record<AiUsageGroup, SQL<string | null>> = {
+      user: sql<string | null>`${aiGenerations.userId}`,
+      model: sql<string | null>`${aiGenerations.model}`,
+      operation: sql<string | null>`${aiGenerations.operation}`,
+      day: sql<string | null>`to_char(${aiGenerations.createdAt}, 'YYYY-MM-DD')`,
+    };
+    const key = groupKeys[groupBy];
+    const label = groupBy === "user" ? sql<string | null>`max(${users.email})` : sql<string | null>`null`;
+    const total = (column: AnyColumn) =>
+      sql<number>`coalesce(sum(${column}), 0)`.mapWith(Number);
+    const estimatedCostMicros = total(aiGenerations.estimatedCostMicros);
+
+    return db
+      .select({
+        key,
+        label,
+        generations: count(),
+        promptTokens: total(aiGenerations.promptTokens),
+        completionTokens: total(aiGenerations.completionTokens),
+        estimatedCostMicros,
+        unpricedGenerations: sql<number>`count(*) filter (where ${aiGenerations.estimatedCostMicros} is null)`.mapWith(Number),
+      })
+      .from(aiGenerations)
+      .leftJoin(users, eq(aiGenerations.userId, users.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .groupBy(key)
+      .orderBy(groupBy === "day" ? asc(key) : desc(estimatedCostMicros));
+  }
+
+  async getSubscriptionStatus(workspaceId: string): Promise<{
     planType: string;
     status: string;
     isBlocked: boolean;
     canUseAi: boolean;
+    graceEndsAt: Date | null;
   }> {
-    const user = await this.getUser(userId);
-    if (!user) {
-      return { planType: "free", status: "free", isBlocked: false, canUseAi: true };
+    const workspace = await this.rollOverAiCredits(workspaceId);
+    if (!workspace) {
+      return { planType: "free", status: "free", isBlocked: false, canUseAi: true, graceEndsAt: null };
     }
 
-    const planType = user.planType;
-    const status = user.subscriptionStatus;
-    
-    const isBlocked = status === "past_due" || status === "cancelled";
-    
-    const hasCredits = user.aiGenerationsUsed < user.aiGenerationsLimit;
-    const hasPaidPlan = planType === "pro" || planType === "enterprise";
-    const canUseAi = !isBlocked && (hasCredits || hasPaidPlan);
-
-    return { planType, status, isBlocked, canUseAi };
+    const { isBlocked, canUseAi } = subscriptionState(workspace, await this.getAiCreditsUsed(workspaceId));
+    return {
+      planType: workspace.planType,
+      status: workspace.subscriptionStatus,
+      isBlocked,
+      canUseAi,
+      graceEndsAt: graceEndsAt(workspace),
+    };
   }
 
   async updateSubscription(
-    userId: string, 
+    workspaceId: string, 
     planType: "free" | "pro" | "enterprise", 
     status: "free" | "active" | "past_due" | "cancelled"
   ): Promise<void> {
-    const limits: Record<string, number> = {
-      free: 3,
-      pro: 999999,
-      enterprise: 999999,
-    };
+    const existing = await this.getWorkspace(workspaceId);
+    if (!existing) return;
 
-    const updateData: Record<string, unknown> = { 
+    const updateData: RowUpdate<Workspace> = { 
       planType, 
       subscriptionStatus: status,
-      aiGenerationsLimit: limits[planType],
     };
-    
-    if (planType === "free") {
-      updateData.aiGenerationsUsed = 0;
+    if (status !== "past_due") {
+      updateData.pastDueSince = null;
+    } else if (existing.subscriptionStatus !== "past_due") {
+      updateData.pastDueSince = new Date();
+    }
+    // A new plan starts a new allowance at the next rollover.
+    if (planType !== existing.planType) {
+      updateData.creditPeriodStart = null;
+      updateData.creditPeriodEnd = null;
     }
 
     await db
-      .update(users)
+      .update(workspaces)
+      .set(updateData)
+      .where(eq(workspaces.id, workspaceId));
+  }
+
+  async updateStripeDetails(workspaceId: string, details: {
+    stripeCustomerId?: string | null;
+    stripeSubscriptionId?: string | null;
+    subscriptionEndDate?: Date | null;
+  }): Promise<void> {
+    const updateData: RowUpdate<Workspace> = { ...details };
+
+    await db
+      .update(workspaces)
+      .set(updateData)
+      .where(eq(workspaces.id, workspaceId));
+  }
+
+  async createJob(job: InsertJob): Promise<Job> {
+    const [newJob] = await db.insert(jobs).values(job).returning();
+    return newJob;
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job || undefined;
+  }
+
+  // Claims the oldest due job whose owner is below the per-user concurrency
+  // limit. SKIP LOCKED lets several worker instances poll the same table.
+  async claimNextJob(perUserLimit: number): Promise<Job | undefined> {
+    const updateData: RowUpdate<Job> = {
+      status: "running",
+      lockedAt: new Date(),
+      attempts: sql`${jobs.attempts} + 1`,
+    };
+
+    const [job] = await db
+      .update(jobs)
       .set(updateData)
-      .where(eq(users.id, userId));
+      .where(eq(jobs.id, sql`(
+        SELECT candidate.id FROM jobs candidate
+        WHERE candidate.status = 'queued'
+          AND candidate.run_at <= now()
+          AND (
+            SELECT count(*) FROM jobs active
+            WHERE active.user_id = candidate.user_id AND active.status = 'running'
+          ) < ${perUserLimit}
+        ORDER BY candidate.run_at
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )`))
+      .returning();
+    return job || undefined;
+  }
+
+  async touchJob(id: string): Promise<void> {
+    const updateData: RowUpdate<Job> = { lockedAt: new Date() };
+    await db.update(jobs).set(updateData).where(and(eq(jobs.id, id), eq(jobs.status, "running")));
+  }
+
+  async completeJob(id: string, projectId: string | null): Promise<void> {
+    const updateData: RowUpdate<Job> = {
+      status: "succeeded",
+      projectId,
+      error: null,
+      lockedAt: null,
+      completedAt: new Date(),
+    };
+
+    await db.update(jobs).set(updateData).where(eq(jobs.id, id));
+  }
+
+  async failJob(id: string, error: string, retryAt: Date | null): Promise<void> {
+    const updateData: RowUpdate<Job> = retryAt
+      ? { status: "queued", error, lockedAt: null, runAt: retryAt }
+      : { status: "failed", error, lockedAt: null, completedAt: new Date() };
+
+    await db.update(jobs).set(updateData).where(eq(jobs.id, id));
+  }
+
+  async requeueStaleJobs(lockedBefore: Date): Promise<number> {
+    const updateData: RowUpdate<Job> = { status: "queued", lockedAt: null, runAt: new Date() };
+
+    const requeued = await db
+      .update(jobs)
+      .set(updateData)
+      .where(and(eq(jobs.status, "running"), lt(jobs.lockedAt, lockedBefore)))
+      .returning({ id: jobs.id });
+    return requeued.length;
+  }
+
+  /**
+   * Runs `handle` unless the event has already been processed, and returns
+   * whether it ran. The event is recorded in a transaction that stays open
+   * while it is handled, so a redelivery arriving meanwhile waits for it: it
+   * is dropped if the first attempt succeeded, and handled again if that
+   * attempt failed and the record was rolled back. Handlers must be safe to
+   * run again after a partial failure.
+   */
+  async processWebhookEventOnce(id: string, type: string, handle: () => Promise<void>): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const inserted = await tx
+        .insert(processedWebhookEvents)
+        .values({ id, type })
+        .onConflictDoNothing()
+        .returning({ id: processedWebhookEvents.id });
+      if (inserted.length === 0) {
+        return false;
+      }
+
+      await handle();
+      return true;
+    });
+  }
+
+  async createAuditLog(entry: InsertAuditLog): Promise<AuditLog> {
+    const [created] = await db.insert(auditLogs).values(entry).returning();
+    return created;
+  }
+
+  async getAuditLogs(
+    filter: AuditLogFilter,
+    options: { limit?: number; offset?: number } = {}
+  ): Promise<{ entries: AuditLog[]; total: number }> {
+    const conditions: SQL[] = [];
+    if (filter.actorId) conditions.push(eq(auditLogs.actorId, filter.actorId));
+    if (filter.action) conditions.push(eq(auditLogs.action, filter.action));
+    if (filter.targetType) conditions.push(eq(auditLogs.targetType, filter.targetType));
+    if (filter.targetId) conditions.push(eq(auditLogs.targetId, filter.targetId));
+    if (filter.from) conditions.push(gte(auditLogs.createdAt, filter.from));
+    if (filter.to) conditions.push(lte(auditLogs.createdAt, filter.to));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    let query = db
+      .select()
+      .from(auditLogs)
+      .where(where)
+      .orderBy(desc(auditLogs.createdAt))
+      .$dynamic();
+    if (options.limit !== undefined) query = query.limit(options.limit);
+    if (options.offset !== undefined) query = query.offset(options.offset);
+    const entries = await query;
+
+    const [totals] = await db.select({ total: count() }).from(auditLogs).where(where);
+    return { entries, total: totals?.total || 0 };
+  }
+
+  // Counts a request against `key`, starting a new window once the current
+  // one has ended. A single upsert, so concurrent instances share the count.
+  async hitRateLimit(key: string, windowMs: number): Promise<{ count: number; resetAt: Date }> {
+    const now = new Date();
+    const resetAt = new Date(now.getTime() + windowMs);
+    const windowEnded = lte(rateLimitCounters.resetAt, now);
+    const counter: RateLimitCounter = { key, count: 1, resetAt };
+    const updateData: RowUpdate<RateLimitCounter> = {
+      count: sql`CASE WHEN ${windowEnded} THEN 1 ELSE ${rateLimitCounters.count} + 1 END`,
+      resetAt: sql`CASE WHEN ${windowEnded} THEN ${sql.param(resetAt, rateLimitCounters.resetAt)} ELSE ${rateLimitCounters.resetAt} END`,
+    };
+    const [current] = await db
+      .insert(rateLimitCounters)
+      .values(counter)
+      .onConflictDoUpdate({ target: rateLimitCounters.key, set: updateData })
+      .returning({ count: rateLimitCounters.count, resetAt: rateLimitCounters.resetAt });
+    return current;
+  }
+
+  async resetRateLimit(key: string): Promise<void> {
+    await db.delete(rateLimitCounters).where(eq(rateLimitCounters.key, key));
+  }
+
+  async pruneRateLimits(): Promise<number> {
+    const deleted = await db
+      .delete(rateLimitCounters)
+      .where(lte(rateLimitCounters.resetAt, new Date()))
+      .returning({ key: rateLimitCounters.key });
+    return deleted.length;
+  }
+
+  async getLoginThrottles(identifiers: { scope: LoginThrottleScope; identifier: string }[]): Promise<LoginThrottle[]> {
+    if (identifiers.length === 0) return [];
+    return db
+      .select()
+      .from(loginThrottles)
+      .where(or(...identifiers.map(({ scope, identifier }) =>
+        and(eq(loginThrottles.scope, scope), eq(loginThrottles.identifier, identifier))
+      )));
+  }
+
+  // Failures older than `windowStart` are forgotten: the count starts again
+  // from one.
+  async recordLoginFailure(scope: LoginThrottleScope, identifier: string, windowStart: Date): Promise<LoginThrottle> {
+    const now = new Date();
+    const failure: InsertLoginThrottle = { scope, identifier, failureCount: 1, lastFailureAt: now };
+    const updateData: RowUpdate<LoginThrottle> = {
+      failureCount: sql`CASE WHEN ${lt(loginThrottles.lastFailureAt, windowStart)} THEN 1 ELSE ${loginThrottles.failureCount} + 1 END`,
+      lastFailureAt: now,
+    };
+    const [throttle] = await db
+      .insert(loginThrottles)
+      .values(failure)
+      .onConflictDoUpdate({ target: [loginThrottles.scope, loginThrottles.identifier], set: updateData })
+      .returning();
+    return throttle;
+  }
+
+  async lockLoginThrottle(id: string, lockedUntil: Date): Promise<void> {
+    const updateData: RowUpdate<LoginThrottle> = { lockedUntil };
+    await db.update(loginThrottles).set(updateData).where(eq(loginThrottles.id, id));
+  }
+
+  async clearLoginThrottle(scope: LoginThrottleScope, identifier: string): Promise<void> {
+    await db
+      .delete(loginThrottles)
+      .where(and(eq(loginThrottles.scope, scope), eq(loginThrottles.identifier, identifier)));
+  }
+
+  async getActiveLoginLockouts(): Promise<LoginThrottle[]> {
+    return db
+      .select()
+      .from(loginThrottles)
+      .where(gt(loginThrottles.lockedUntil, new Date()))
+      .orderBy(desc(loginThrottles.lockedUntil));
+  }
+
+  async deleteLoginThrottle(id: string): Promise<LoginThrottle | undefined> {
+    const [deleted] = await db.delete(loginThrottles).where(eq(loginThrottles.id, id)).returning();
+    return deleted || undefined;
+  }
+
+  async pruneLoginThrottles(lastFailureBefore: Date): Promise<number> {
+    const deleted = await db
+      .delete(loginThrottles)
+      .where(and(
+        lt(loginThrottles.lastFailureAt, lastFailureBefore),
+        or(isNull(loginThrottles.lockedUntil), lte(loginThrottles.lockedUntil, new Date()))
+      ))
+      .returning({ id: loginThrottles.id });
+    return deleted.length;
   }
 }
 
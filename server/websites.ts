@@ -0,0 +1,172 @@
+import { storage } from "./storage";
+import { regenerateSection, generatePage, type GeneratedWebsite, type WebsiteGenerationRequest } from "./openai-website";
+import { ensureSectionMarkers, findSection, replaceSection, extractStyleContext } from "./sections";
+import { sanitizeWebsiteHtml, sanitizeWebsiteCss, type SanitizationReport } from "./sanitize";
+import { buildPageDocument } from "./pages";
+import type { Page, Project } from "@shared/schema";
+
+export interface SanitizedContent {
+  generatedHtml: string;
+  generatedCss: string;
+  sanitizationReport: SanitizationReport;
+}
+
+/**
+ * Runs generated or user-supplied HTML/CSS through the sanitizer before it is
+ * stored. The report is kept on the project so users can see what was changed.
+ */
+export function sanitizeContent(html: string, css: string | null): SanitizedContent {
+  const { html: generatedHtml, report } = sanitizeWebsiteHtml(html);
+  const { css: generatedCss, warnings } = sanitizeWebsiteCss(css || "");
+  return {
+    generatedHtml,
+    generatedCss,
+    sanitizationReport: { ...report, warnings: [...report.warnings, ...warnings] },
+  };
+}
+
+// Projects generated before revisions existed have no history; snapshot their
+// current content once so the first overwrite can still be rolled back.
+export async function ensureInitialRevision(project: Project): Promise<void> {
+  if (!project.generatedHtml && !project.generatedCss) return;
+  const existing = await storage.getProjectRevisions(project.id);
+  if (existing.length > 0) return;
+  await storage.createProjectRevision({
+    projectId: project.id,
+    userId: null,
+    source: "manual",
+    generatedHtml: project.generatedHtml,
+    generatedCss: project.generatedCss,
+  });
+}
+
+export async function saveGeneratedWebsite(
+  userId: string,
+  workspaceId: string,
+  input: WebsiteGenerationRequest,
+  generated: GeneratedWebsite
+): Promise<Project> {
+  const project = await storage.createProject({
+    name: input.businessName,
+    description: input.description,
+    userId,
+    workspaceId,
+    templateId: input.templateId || null,
+    status: "draft",
+    ...sanitizeContent(ensureSectionMarkers(generated.html), generated.css),
+    businessType: input.businessType,
+    primaryColor: input.primaryColor,
+  });
+
+  await storage.createProjectRevision({
+    projectId: project.id,
+    userId,
+    source: "ai_generate",
+    instructions: input.description,
+    generatedHtml: project.generatedHtml,
+    generatedCss: project.generatedCss,
+  });
+
+  return project;
+}
+
+export async function regenerateProjectSection(
+  userId: string,
+  project: Project,
+  sectionName: string,
+  instructions: string,
+  model?: string
+): Promise<Project | undefined> {
+  const html = ensureSectionMarkers(project.generatedHtml || "");
+  const section = findSection(html, sectionName);
+  if (!section) {
+    throw new Error(`Section "${sectionName}" not found`);
+  }
+
+  const regenerated = await regenerateSection(
+    section.html,
+    sectionName,
+    instructions,
+    extractStyleContext(html),
+    { userId, workspaceId: project.workspaceId, projectId: project.id },
+    model
+  );
+  const content = sanitizeContent(replaceSection(html, sectionName, regenerated.html), project.generatedCss);
+
+  await ensureInitialRevision(project);
+
+  const updated = await storage.updateProject(project.id, content);
+
+  await storage.createProjectRevision({
+    projectId: project.id,
+    userId,
+    source: "ai_regenerate",
+    sectionName,
+    instructions,
+    generatedHtml: content.generatedHtml,
+    generatedCss: content.generatedCss,
+  });
+
+  return updated;
+}
+
+export async function saveManualHtml(
+  userId: string,
+  project: Project,
+  html: string
+): Promise<Project | undefined> {
+  const content = sanitizeContent(html, project.generatedCss);
+
+  await ensureInitialRevision(project);
+
+  const updated = await storage.updateProject(project.id, content);
+
+  await storage.createProjectRevision({
+    projectId: project.id,
+    userId,
+    source: "manual",
+    generatedHtml: content.generatedHtml,
+    generatedCss: content.generatedCss,
+  });
+
+  return updated;
+}
+
+export interface PageGenerationInput {
+  title: string;
+  slug: string;
+  instructions: string;
+  model?: string;
+}
+
+export async function generateProjectPage(
+  userId: string,
+  project: Project,
+  input: PageGenerationInput
+): Promise<Page> {
+  if (await storage.getPageBySlug(project.id, input.slug)) {
+    throw new Error(`A page with the slug "${input.slug}" already exists`);
+  }
+
+  const home = ensureSectionMarkers(project.generatedHtml || "");
+  const generated = await generatePage({
+    businessName: project.name,
+    businessType: project.businessType || "business",
+    title: input.title,
+    instructions: input.instructions,
+    styleContext: extractStyleContext(home),
+    model: input.model,
+  }, { userId, workspaceId: project.workspaceId, projectId: project.id });
+  const { generatedHtml, sanitizationReport } = sanitizeContent(buildPageDocument(home, generated.html), null);
+
+  const page = await storage.createPage({
+    projectId: project.id,
+    slug: input.slug,
+    title: input.title,
+    html: generatedHtml,
+    metaDescription: generated.metaDescription,
+    sanitizationReport,
+  });
+
+  return page;
+}
@@ -1,5 +1,5 @@
 import { sql, relations } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, pgEnum, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, pgEnum, integer, boolean, jsonb, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -7,6 +7,26 @@ export const roleEnum = pgEnum("role", ["ADMIN", "CLIENT"]);
 export const projectStatusEnum = pgEnum("project_status", ["draft", "published", "archived"]);
 export const subscriptionStatusEnum = pgEnum("subscription_status", ["free", "active", "past_due", "cancelled"]);
 export const planTypeEnum = pgEnum("plan_type", ["free", "pro", "enterprise"]);
+export const jobTypeEnum = pgEnum("job_type", ["website_generate", "website_regenerate", "page_generate"]);
+export const jobStatusEnum = pgEnum("job_status", ["queued", "running", "succeeded", "failed"]);
+export const deviceTypeEnum = pgEnum("device_type", ["desktop", "mobile", "tablet"]);
+export const workspaceRoleEnum = pgEnum("workspace_role", ["owner", "editor", "viewer"]);
+export const accountTokenPurposeEnum = pgEnum("account_token_purpose", ["email_verification", "password_reset"]);
+export const creditEntryKindEnum = pgEnum("credit_entry_kind", ["debit", "refund", "adjustment"]);
+export const creditEntryStatusEnum = pgEnum("credit_entry_status", ["reserved", "committed", "refunded"]);
+export const loginThrottleScopeEnum = pgEnum("login_throttle_scope", ["account", "ip"]);
+export const API_KEY_SCOPES = [
+  "account:read",
+  "projects:read",
+  "projects:write",
+  "ai:generate",
+  "media:read",
+  "media:write",
+] as const;
+
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+export const revisionSourceEnum = pgEnum("revision_source", ["ai_generate", "ai_regenerate", "manual", "restore"]);
 
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -15,6 +35,10 @@ export const users = pgTable("users", {
   name: text("name").notNull(),
   role: roleEnum("role").default("CLIENT").notNull(),
   avatarUrl: text("avatar_url"),
+  emailVerified: boolean("email_verified").default(false).notNull(),
+  // Plan and credit columns predate workspaces. They are copied into the
+  // user's personal workspace once and are no longer updated; see
+  // `workspaces` below.
   aiGenerationsUsed: integer("ai_generations_used").default(0).notNull(),
   aiGenerationsLimit: integer("ai_generations_limit").default(3).notNull(),
   planType: planTypeEnum("plan_type").default("free").notNull(),
@@ -22,11 +46,182 @@ export const users = pgTable("users", {
   stripeCustomerId: text("stripe_customer_id"),
   stripeSubscriptionId: text("stripe_subscription_id"),
   subscriptionEndDate: timestamp("subscription_end_date"),
+  // Embedded in access tokens; bumping it invalidates every token issued
+  // before, e.g. on "log out of all sessions".
+  tokenVersion: integer("token_version").default(0).notNull(),
+  // Set while an admin has suspended the account, which blocks logins,
+  // sessions and API keys until it is reactivated.
+  suspendedAt: timestamp("suspended_at"),
+  suspendedReason: text("suspended_reason"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const usersRelations = relations(users, ({ many }) => ({
   projects: many(projects),
+  workspaceMemberships: many(workspaceMembers),
+  refreshTokens: many(refreshTokens),
+  accountTokens: many(accountTokens),
+  apiKeys: many(apiKeys),
+}));
+
+// Projects and media belong to a workspace, and AI credits and the plan are
+// pooled per workspace. Every user has a personal workspace; agencies create
+// shared ones and invite members.
+export const workspaces = pgTable("workspaces", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  // The member who created the workspace and is billed for it. Can't be
+  // removed or demoted.
+  ownerId: varchar("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  isPersonal: boolean("is_personal").default(false).notNull(),
+  // Usage before the credit ledger; moved into it as an opening adjustment
+  // at startup and no longer updated. Use the ledger for the balance.
+  aiGenerationsUsed: integer("ai_generations_used").default(0).notNull(),
+  // No longer read or updated; credit allowances come from the plan catalog
+  // in server/plans.ts.
+  aiGenerationsLimit: integer("ai_generations_limit").default(3).notNull(),
+  planType: planTypeEnum("plan_type").default("free").notNull(),
+  subscriptionStatus: subscriptionStatusEnum("subscription_status").default("free").notNull(),
+  stripeCustomerId: text("stripe_customer_id"),
+  stripeSubscriptionId: text("stripe_subscription_id"),
+  subscriptionEndDate: timestamp("subscription_end_date"),
+  // When the subscription last became past_due; the grace period runs from
+  // here. Cleared once it is paid or cancelled.
+  pastDueSince: timestamp("past_due_since"),
+  // The billing period the AI credit allowance was last reset for. Null
+  // until the first reset, and after a plan change.
+  creditPeriodStart: timestamp("credit_period_start"),
+  creditPeriodEnd: timestamp("credit_period_end"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  index("workspaces_owner_id_idx").on(table.ownerId),
+  index("workspaces_credit_period_end_idx").on(table.creditPeriodEnd),
+  uniqueIndex("workspaces_personal_owner_idx").on(table.ownerId).where(sql`${table.isPersonal}`),
+]);
+
+export const workspacesRelations = relations(workspaces, ({ one, many }) => ({
+  owner: one(users, {
+    fields: [workspaces.ownerId],
+    references: [users.id],
+  }),
+  members: many(workspaceMembers),
+  invitations: many(workspaceInvitations),
+  projects: many(projects),
+  media: many(media),
+}));
+
+export const workspaceMembers = pgTable("workspace_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  role: workspaceRoleEnum("role").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("workspace_members_workspace_user_idx").on(table.workspaceId, table.userId),
+  index("workspace_members_user_id_idx").on(table.userId),
+]);
+
+export const workspaceMembersRelations = relations(workspaceMembers, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [workspaceMembers.workspaceId],
+    references: [workspaces.id],
+  }),
+  user: one(users, {
+    fields: [workspaceMembers.userId],
+    references: [users.id],
+  }),
+}));
+
+// Invitation links are emailed; like other emailed tokens only the hash is
+// stored.
+export const workspaceInvitations = pgTable("workspace_invitations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  email: text("email").notNull(),
+  role: workspaceRoleEnum("role").notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull(),
+  invitedById: varchar("invited_by_id").references(() => users.id, { onDelete: "set null" }),
+  expiresAt: timestamp("expires_at").notNull(),
+  acceptedAt: timestamp("accepted_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("workspace_invitations_token_hash_idx").on(table.tokenHash),
+  index("workspace_invitations_workspace_id_idx").on(table.workspaceId),
+]);
+
+export const workspaceInvitationsRelations = relations(workspaceInvitations, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [workspaceInvitations.workspaceId],
+    references: [workspaces.id],
+  }),
+}));
+
+// Refresh tokens are stored as SHA-256 hashes, never in plain text. Each use
+// rotates the token: the old row is revoked and a new one is issued in the
+// same family. Presenting a revoked token revokes the whole family, since it
+// means the token was copied.
+export const refreshTokens = pgTable("refresh_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  familyId: varchar("family_id").notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull(),
+  userAgent: text("user_agent"),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("refresh_tokens_token_hash_idx").on(table.tokenHash),
+  index("refresh_tokens_user_id_idx").on(table.userId),
+  index("refresh_tokens_family_id_idx").on(table.familyId),
+]);
+
+// Single-use links sent by email. Like refresh tokens, only the SHA-256 hash
+// is stored; `usedAt` is set when the link is redeemed.
+export const accountTokens = pgTable("account_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  purpose: accountTokenPurposeEnum("purpose").notNull(),
+  tokenHash: varchar("token_hash", { length: 64 }).notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("account_tokens_token_hash_idx").on(table.tokenHash),
+  index("account_tokens_user_id_purpose_idx").on(table.userId, table.purpose),
+]);
+
+// Personal API keys for scripts and CI. The key itself is shown once at
+// creation; we keep its SHA-256 hash and a short prefix so users can tell
+// their keys apart.
+export const apiKeys = pgTable("api_keys", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  prefix: varchar("prefix", { length: 16 }).notNull(),
+  keyHash: varchar("key_hash", { length: 64 }).notNull(),
+  scopes: jsonb("scopes").$type<ApiKeyScope[]>().notNull(),
+  expiresAt: timestamp("expires_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("api_keys_key_hash_idx").on(table.keyHash),
+  index("api_keys_user_id_idx").on(table.userId),
+]);
+
+export const apiKeysRelations = relations(apiKeys, ({ one }) => ({
+  user: one(users, {
+    fields: [apiKeys.userId],
+    references: [users.id],
+  }),
+}));
+
+export const refreshTokensRelations = relations(refreshTokens, ({ one }) => ({
+  user: one(users, {
+    fields: [refreshTokens.userId],
+    references: [users.id],
+  }),
 }));
 
 export const projects = pgTable("projects", {
@@ -34,27 +229,140 @@ export const projects = pgTable("projects", {
   name: text("name").notNull(),
   description: text("description"),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  templateId: varchar("template_id").references(() => templates.id),
+  // Null only for projects created before workspaces, until the startup
+  // backfill moves them into their owner's personal workspace.
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }),
+  templateId: varchar("template_id").references(() => templates.id, { onDelete: "set null" }),
   status: projectStatusEnum("status").default("draft").notNull(),
-  domain: text("domain"),
+  slug: text("slug").unique(),
+  // Stored normalized (lowercase, no scheme, port or "www."), so the unique
+  // index also catches the same host typed differently.
+  domain: text("domain").unique(),
   thumbnail: text("thumbnail"),
   generatedHtml: text("generated_html"),
   generatedCss: text("generated_css"),
+  sanitizationReport: jsonb("sanitization_report").$type<{
+    sanitizedAt: string;
+    warnings: { code: string; message: string; detail?: string }[];
+  }>(),
   businessType: text("business_type"),
   primaryColor: text("primary_color"),
+  // Where new contact form submissions are emailed; null turns notifications off.
+  formNotificationEmail: text("form_notification_email"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
-export const projectsRelations = relations(projects, ({ one }) => ({
+export const projectsRelations = relations(projects, ({ one, many }) => ({
   user: one(users, {
     fields: [projects.userId],
     references: [users.id],
   }),
+  workspace: one(workspaces, {
+    fields: [projects.workspaceId],
+    references: [workspaces.id],
+  }),
   template: one(templates, {
     fields: [projects.templateId],
     references: [templates.id],
   }),
+  revisions: many(projectRevisions),
+  pages: many(pages),
+  pageViews: many(pageViews),
+  formSubmissions: many(formSubmissions),
+}));
+
+export const projectRevisions = pgTable("project_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  source: revisionSourceEnum("source").notNull(),
+  sectionName: text("section_name"),
+  instructions: text("instructions"),
+  restoredFromId: varchar("restored_from_id"),
+  generatedHtml: text("generated_html"),
+  generatedCss: text("generated_css"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const projectRevisionsRelations = relations(projectRevisions, ({ one }) => ({
+  project: one(projects, {
+    fields: [projectRevisions.projectId],
+    references: [projects.id],
+  }),
+  user: one(users, {
+    fields: [projectRevisions.userId],
+    references: [users.id],
+  }),
+}));
+
+export const pages = pgTable("pages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  slug: text("slug").notNull(),
+  title: text("title").notNull(),
+  position: integer("position").default(0).notNull(),
+  html: text("html").notNull(),
+  metaTitle: text("meta_title"),
+  metaDescription: text("meta_description"),
+  sanitizationReport: jsonb("sanitization_report").$type<{
+    sanitizedAt: string;
+    warnings: { code: string; message: string; detail?: string }[];
+  }>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("pages_project_slug_idx").on(table.projectId, table.slug),
+]);
+
+export const pagesRelations = relations(pages, ({ one }) => ({
+  project: one(projects, {
+    fields: [pages.projectId],
+    references: [projects.id],
+  }),
+}));
+
+// One row per page view on a published site. `visitorId` is a hash that
+// rotates daily (see server/analytics.ts); no IPs or cookies are stored.
+export const pageViews = pgTable("page_views", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  path: text("path").notNull(),
+  referrer: text("referrer"),
+  device: deviceTypeEnum("device").notNull(),
+  visitorId: varchar("visitor_id", { length: 32 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("page_views_project_created_at_idx").on(table.projectId, table.createdAt),
+  index("page_views_created_at_idx").on(table.createdAt),
+]);
+
+export const pageViewsRelations = relations(pageViews, ({ one }) => ({
+  project: one(projects, {
+    fields: [pageViews.projectId],
+    references: [projects.id],
+  }),
+}));
+
+export const formSubmissions = pgTable("form_submissions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id, { onDelete: "cascade" }),
+  formName: text("form_name").notNull(),
+  pagePath: text("page_path"),
+  data: jsonb("data").$type<Record<string, string>>().notNull(),
+  // Hashed like analytics visitor ids; only used for per-IP rate limiting.
+  ipHash: varchar("ip_hash", { length: 32 }).notNull(),
+  isRead: boolean("is_read").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("form_submissions_project_created_at_idx").on(table.projectId, table.createdAt),
+]);
+
+export const formSubmissionsRelations = relations(formSubmissions, ({ one }) => ({
+  project: one(projects, {
+    fields: [formSubmissions.projectId],
+    references: [projects.id],
+  }),
 }));
 
 export const templates = pgTable("templates", {
@@ -62,9 +370,17 @@ export const templates = pgTable("templates", {
   name: text("name").notNull(),
   description: text("description"),
   thumbnail: text("thumbnail"),
+  thumbnailKey: text("thumbnail_key"),
   category: text("category").notNull(),
   isPremium: boolean("is_premium").default(false).notNull(),
+  html: text("html"),
+  css: text("css"),
+  // Section names, in order, that sites generated from the template start with.
+  sections: jsonb("sections").$type<string[]>(),
+  // Extra style direction appended to the AI prompt when generating from it.
+  promptHints: text("prompt_hints"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 export const templatesRelations = relations(templates, ({ many }) => ({
@@ -75,9 +391,11 @@ export const media = pgTable("media", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
   url: text("url").notNull(),
+  storageKey: text("storage_key"),
   type: text("type").notNull(),
   size: integer("size").notNull(),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -86,24 +404,196 @@ export const mediaRelations = relations(media, ({ one }) => ({
     fields: [media.userId],
     references: [users.id],
   }),
+  workspace: one(workspaces, {
+    fields: [media.workspaceId],
+    references: [workspaces.id],
+  }),
+}));
+
+export const CREDIT_OPERATIONS = ["content_generate", "website_generate", "section_regenerate", "page_generate"] as const;
+export type CreditOperation = typeof CREDIT_OPERATIONS[number];
+
+/**
+ * Every change to a workspace's AI credits. A generation first inserts a
+ * "reserved" debit of -1, which becomes "committed" when it succeeds or
+ * "refunded" (with a matching +1 refund row) when it fails. Adjustments move
+ * the balance by hand. Credits used = -sum(amount).
+ */
+export const aiCreditLedger = pgTable("ai_credit_ledger", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  workspaceId: varchar("workspace_id").notNull().references(() => workspaces.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  projectId: varchar("project_id").references(() => projects.id, { onDelete: "set null" }),
+  kind: creditEntryKindEnum("kind").notNull(),
+  // Set on debits only.
+  status: creditEntryStatusEnum("status"),
+  amount: integer("amount").notNull(),
+  operation: varchar("operation", { length: 32 }).$type<CreditOperation>(),
+  description: text("description"),
+  // On refunds, the debit being refunded. Unique, so a debit is refunded once.
+  debitId: varchar("debit_id"),
+  settledAt: timestamp("settled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("ai_credit_ledger_workspace_created_at_idx").on(table.workspaceId, table.createdAt),
+  index("ai_credit_ledger_status_created_at_idx").on(table.status, table.createdAt),
+  uniqueIndex("ai_credit_ledger_debit_id_idx").on(table.debitId),
+]);
+
+export const aiCreditLedgerRelations = relations(aiCreditLedger, ({ one }) => ({
+  workspace: one(workspaces, {
+    fields: [aiCreditLedger.workspaceId],
+    references: [workspaces.id],
+  }),
+  project: one(projects, {
+    fields: [aiCreditLedger.projectId],
+    references: [projects.id],
+  }),
 }));
 
+export const AI_OPERATIONS = ["website", "section", "page", "content", "design", "seo"] as const;
+export type AiOperation = typeof AI_OPERATIONS[number];
+
+/**
+ * One row per completed AI provider call, with the token counts the provider
+ * reported. Rows written before usage accounting have only tokensUsed, which
+ * was an estimate.
+ */
 export const aiGenerations = pgTable("ai_generations", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  workspaceId: varchar("workspace_id").references(() => workspaces.id, { onDelete: "set null" }),
+  projectId: varchar("project_id").references(() => projects.id, { onDelete: "set null" }),
+  operation: varchar("operation", { length: 32 }).$type<AiOperation>(),
+  model: text("model"),
   prompt: text("prompt").notNull(),
   result: text("result"),
+  promptTokens: integer("prompt_tokens"),
+  completionTokens: integer("completion_tokens"),
   tokensUsed: integer("tokens_used"),
+  latencyMs: integer("latency_ms"),
+  // In millionths of a US dollar. Null when the model has no price.
+  estimatedCostMicros: integer("estimated_cost_micros"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
-});
+}, (table) => [
+  index("ai_generations_user_created_at_idx").on(table.userId, table.createdAt),
+  index("ai_generations_created_at_idx").on(table.createdAt),
+]);
 
 export const aiGenerationsRelations = relations(aiGenerations, ({ one }) => ({
   user: one(users, {
     fields: [aiGenerations.userId],
     references: [users.id],
   }),
+  workspace: one(workspaces, {
+    fields: [aiGenerations.workspaceId],
+    references: [workspaces.id],
+  }),
+  project: one(projects, {
+    fields: [aiGenerations.projectId],
+    references: [projects.id],
+  }),
+}));
+
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: jobTypeEnum("type").notNull(),
+  status: jobStatusEnum("status").default("queued").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  projectId: varchar("project_id").references(() => projects.id, { onDelete: "set null" }),
+  // The credit reserved when the job was queued; committed when it succeeds
+  // and refunded when it finally fails.
+  creditId: varchar("credit_id").references(() => aiCreditLedger.id, { onDelete: "set null" }),
+  error: text("error"),
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(3).notNull(),
+  runAt: timestamp("run_at").defaultNow().notNull(),
+  lockedAt: timestamp("locked_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("jobs_status_run_at_idx").on(table.status, table.runAt),
+  index("jobs_credit_id_idx").on(table.creditId),
+]);
+
+export const jobsRelations = relations(jobs, ({ one }) => ({
+  user: one(users, {
+    fields: [jobs.userId],
+    references: [users.id],
+  }),
+  project: one(projects, {
+    fields: [jobs.projectId],
+    references: [projects.id],
+  }),
 }));
 
+export const processedWebhookEvents = pgTable("processed_webhook_events", {
+  id: varchar("id").primaryKey(),
+  type: text("type").notNull(),
+  processedAt: timestamp("processed_at").defaultNow().notNull(),
+});
+
+export const AUDIT_ACTIONS = [
+  "user.role_change",
+  "user.delete",
+  "user.suspend",
+  "user.reactivate",
+  "user.password_reset",
+  "project.update",
+  "project.delete",
+  "subscription.update",
+  "credits.adjust",
+  "lockout.clear",
+] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+export type AuditTargetType = "user" | "project" | "workspace" | "lockout";
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+// Append-only record of privileged actions. Rows are never updated or
+// deleted; the actor's email is copied so entries outlive the account.
+export const auditLogs = pgTable("audit_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }),
+  actorEmail: text("actor_email"),
+  action: varchar("action", { length: 64 }).$type<AuditAction>().notNull(),
+  targetType: varchar("target_type", { length: 32 }).$type<AuditTargetType>().notNull(),
+  targetId: varchar("target_id").notNull(),
+  changes: jsonb("changes").$type<AuditChanges>(),
+  metadata: jsonb("metadata").$type<Record<string, unknown>>(),
+  ipAddress: varchar("ip_address", { length: 64 }),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("audit_logs_created_at_idx").on(table.createdAt),
+  index("audit_logs_actor_id_created_at_idx").on(table.actorId, table.createdAt),
+  index("audit_logs_target_idx").on(table.targetType, table.targetId),
+  index("audit_logs_action_created_at_idx").on(table.action, table.createdAt),
+]);
+
+// Fixed-window request counters for the Postgres rate limit store.
+export const rateLimitCounters = pgTable("rate_limit_counters", {
+  key: varchar("key", { length: 255 }).primaryKey(),
+  count: integer("count").default(0).notNull(),
+  resetAt: timestamp("reset_at").notNull(),
+});
+
+// Failed logins per email address and per IP address. `lockedUntil` is set
+// once the failures pass the scope's threshold.
+export const loginThrottles = pgTable("login_throttles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: loginThrottleScopeEnum("scope").notNull(),
+  identifier: varchar("identifier", { length: 320 }).notNull(),
+  failureCount: integer("failure_count").default(0).notNull(),
+  lockedUntil: timestamp("locked_until"),
+  lastFailureAt: timestamp("last_failure_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex("login_throttles_scope_identifier_idx").on(table.scope, table.identifier),
+  index("login_throttles_locked_until_idx").on(table.lockedUntil),
+]);
+
 export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
   createdAt: true,
@@ -120,16 +610,96 @@ export const signupSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
 });
 
+export const auditLogQuerySchema = z.object({
+  actorId: z.string().optional(),
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  targetType: z.enum(["user", "project", "workspace", "lockout"]).optional(),
+  targetId: z.string().optional(),
+  from: z.coerce.date({ errorMap: () => ({ message: "from must be a valid date" }) }).optional(),
+  to: z.coerce.date({ errorMap: () => ({ message: "to must be a valid date" }) }).optional(),
+});
+
+export const ADMIN_USER_SORTS = ["createdAt", "email", "name"] as const;
+
+export const adminUserQuerySchema = z.object({
+  q: z.string().trim().max(200, "Search must be at most 200 characters").optional(),
+  role: z.enum(["ADMIN", "CLIENT"]).optional(),
+  status: z.enum(["active", "suspended"]).optional(),
+  // Plan and subscription of the user's personal workspace.
+  plan: z.enum(["free", "pro", "enterprise"]).optional(),
+  subscriptionStatus: z.enum(["free", "active", "past_due", "cancelled"]).optional(),
+  sort: z.enum(ADMIN_USER_SORTS).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  cursor: z.string().optional(),
+});
+
+export const suspendUserSchema = z.object({
+  reason: z.string().trim().max(500, "Reason must be at most 500 characters").optional(),
+});
+
+export const adjustAiCreditsSchema = z.object({
+  // Positive amounts grant credits, negative ones take them away.
+  amount: z.number()
+    .int("Amount must be a whole number")
+    .min(-10000, "Amount must be between -10000 and 10000")
+    .max(10000, "Amount must be between -10000 and 10000")
+    .refine((amount) => amount !== 0, "Amount can't be zero"),
+  reason: z.string().trim().min(1, "Reason is required").max(500, "Reason must be at most 500 characters"),
+});
+
+export const updateUserPlanSchema = z.object({
+  planType: z.enum(["free", "pro", "enterprise"]),
+  status: z.enum(["free", "active", "past_due", "cancelled"]).optional(),
+});
+
+export const AI_USAGE_GROUPS = ["user", "model", "operation", "day"] as const;
+
+export const aiUsageReportQuerySchema = z.object({
+  groupBy: z.enum(AI_USAGE_GROUPS).default("day"),
+  userId: z.string().optional(),
+  operation: z.enum(AI_OPERATIONS).optional(),
+  from: z.coerce.date({ errorMap: () => ({ message: "from must be a valid date" }) }).optional(),
+  to: z.coerce.date({ errorMap: () => ({ message: "to must be a valid date" }) }).optional(),
+});
+
+export const refreshTokenSchema = z.object({
+  refreshToken: z.string().min(1, "Refresh token is required"),
+});
+
+export const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+export const resetPasswordSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1, "Verification token is required"),
+});
+
+export const createApiKeySchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be at most 100 characters"),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, "Select at least one scope"),
+  expiresAt: z.coerce.date().refine((date) => date.getTime() > Date.now(), "Expiry must be in the future").optional(),
+});
+
 export const insertProjectSchema = createInsertSchema(projects).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
   userId: true,
+  sanitizationReport: true,
 });
 
 export const insertTemplateSchema = createInsertSchema(templates).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
+  thumbnailKey: true,
+}).extend({
+  sections: z.array(z.string().min(1)).nullable().optional(),
 });
 
 export const insertMediaSchema = createInsertSchema(media).omit({
@@ -138,31 +708,149 @@ export const insertMediaSchema = createInsertSchema(media).omit({
   userId: true,
 });
 
+export const createWorkspaceSchema = z.object({
+  name: z.string().trim().min(2, "Workspace name must be at least 2 characters").max(100, "Workspace name must be at most 100 characters"),
+});
+
+// Only the workspace's creator is its owner; members can be made editors or
+// viewers but never given "manage" rights.
+export const inviteWorkspaceMemberSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  role: z.enum(["editor", "viewer"]).default("editor"),
+});
+
+export const updateWorkspaceMemberSchema = z.object({
+  role: z.enum(["editor", "viewer"]),
+});
+
+export const acceptInvitationSchema = z.object({
+  token: z.string().min(1, "Invitation token is required"),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
-export type UserSafe = Omit<User, "password">;
+export type UserSafe = Omit<User, "password" | "tokenVersion">;
+export type AdminUserFilter = Omit<z.infer<typeof adminUserQuerySchema>, "cursor">;
+export type AdminUserSummary = UserSafe & {
+  personalWorkspace: Pick<Workspace, "id" | "planType" | "subscriptionStatus"> | null;
+};
+
+export type RefreshToken = typeof refreshTokens.$inferSelect;
+export type InsertRefreshToken = Pick<RefreshToken, "userId" | "familyId" | "tokenHash" | "expiresAt"> &
+  Partial<Omit<RefreshToken, "id" | "createdAt">>;
+
+export type ApiKey = typeof apiKeys.$inferSelect;
+export type ApiKeySummary = Omit<ApiKey, "userId" | "keyHash">;
+export type InsertApiKey = Pick<ApiKey, "userId" | "name" | "prefix" | "keyHash" | "scopes"> &
+  Partial<Pick<ApiKey, "expiresAt">>;
+
+export type AccountToken = typeof accountTokens.$inferSelect;
+export type AccountTokenPurpose = AccountToken["purpose"];
+export type InsertAccountToken = Pick<AccountToken, "userId" | "purpose" | "tokenHash" | "expiresAt">;
 
 export type InsertProject = z.infer<typeof insertProjectSchema>;
 export type Project = typeof projects.$inferSelect;
 
+export type ProjectRevision = typeof projectRevisions.$inferSelect;
+export type InsertProjectRevision = Pick<ProjectRevision, "projectId" | "source"> &
+  Partial<Omit<ProjectRevision, "id" | "createdAt">>;
+export type ProjectRevisionSummary = Omit<ProjectRevision, "generatedHtml" | "generatedCss">;
+
+export type Page = typeof pages.$inferSelect;
+export type InsertPage = Pick<Page, "projectId" | "slug" | "title" | "html"> &
+  Partial<Omit<Page, "id" | "createdAt" | "updatedAt">>;
+export type PageSummary = Omit<Page, "html" | "sanitizationReport">;
+
+export type PageView = typeof pageViews.$inferSelect;
+export type InsertPageView = Pick<PageView, "projectId" | "path" | "device" | "visitorId"> &
+  Partial<Omit<PageView, "id" | "createdAt">>;
+
+export interface AnalyticsReport {
+  since: string;
+  pageViews: number;
+  // Visitor ids rotate daily, so a visitor seen on several days counts once per day.
+  visitors: number;
+  byDay: { date: string; pageViews: number; visitors: number }[];
+  byPage: { path: string; pageViews: number; visitors: number }[];
+  byReferrer: { referrer: string; pageViews: number }[];
+  byDevice: { device: string; pageViews: number }[];
+}
+
+export type FormSubmission = typeof formSubmissions.$inferSelect;
+export type InsertFormSubmission = Pick<FormSubmission, "projectId" | "formName" | "data" | "ipHash"> &
+  Partial<Omit<FormSubmission, "id" | "createdAt">>;
+
+export type AuditLog = typeof auditLogs.$inferSelect;
+export type InsertAuditLog = Pick<AuditLog, "action" | "targetType" | "targetId"> &
+  Partial<Omit<AuditLog, "id" | "createdAt">>;
+export type AuditLogFilter = z.infer<typeof auditLogQuerySchema>;
+
+export type LoginThrottle = typeof loginThrottles.$inferSelect;
+export type LoginThrottleScope = LoginThrottle["scope"];
+export type InsertLoginThrottle = Pick<LoginThrottle, "scope" | "identifier"> &
+  Partial<Omit<LoginThrottle, "id" | "createdAt">>;
+export type RateLimitCounter = typeof rateLimitCounters.$inferSelect;
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = Pick<Job, "userId" | "type" | "payload"> &
+  Partial<Omit<Job, "id" | "createdAt">>;
+
 export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
 export type Template = typeof templates.$inferSelect;
+export type TemplateSummary = Omit<Template, "html" | "css">;
+
+export type Workspace = typeof workspaces.$inferSelect;
+export type WorkspaceRole = typeof workspaceMembers.$inferSelect["role"];
+export type InsertWorkspace = Pick<Workspace, "name" | "ownerId"> &
+  Partial<Omit<Workspace, "id" | "createdAt" | "updatedAt">>;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+export type WorkspaceMemberSummary = Pick<WorkspaceMember, "userId" | "role" | "createdAt"> &
+  Pick<User, "name" | "email" | "avatarUrl">;
+export type WorkspaceWithRole = Workspace & { role: WorkspaceRole };
+export type WorkspaceInvitation = typeof workspaceInvitations.$inferSelect;
+export type WorkspaceInvitationSummary = Omit<WorkspaceInvitation, "tokenHash">;
+export type InsertWorkspaceInvitation = Pick<WorkspaceInvitation, "workspaceId" | "email" | "role" | "tokenHash" | "expiresAt"> &
+  Partial<Pick<WorkspaceInvitation, "invitedById">>;
 
 export type InsertMedia = z.infer<typeof insertMediaSchema>;
 export type Media = typeof media.$inferSelect;
 
-export const insertAiGenerationSchema = createInsertSchema(aiGenerations).omit({
-  id: true,
-  createdAt: true,
-  userId: true,
-  result: true,
-  tokensUsed: true,
-});
-
 export const aiGenerateSchema = z.object({
   prompt: z.string().min(10, "Prompt must be at least 10 characters"),
   type: z.enum(["content", "design", "seo"]).default("content"),
+  workspaceId: z.string().optional(),
+  model: z.string().optional(),
 });
 
-export type InsertAiGeneration = z.infer<typeof insertAiGenerationSchema>;
+export type AiCreditEntry = typeof aiCreditLedger.$inferSelect;
+export type InsertAiCreditEntry = Pick<AiCreditEntry, "workspaceId" | "kind" | "amount"> &
+  Partial<Omit<AiCreditEntry, "id" | "createdAt">>;
+export type AiCreditEntryWithProject = AiCreditEntry & { projectName: string | null };
+
 export type AiGeneration = typeof aiGenerations.$inferSelect;
+export type InsertAiGeneration = Pick<AiGeneration, "userId" | "prompt"> &
+  Partial<Omit<AiGeneration, "id" | "createdAt">>;
+export type AiUsageGroup = typeof AI_USAGE_GROUPS[number];
+export type AiUsageFilter = Omit<z.infer<typeof aiUsageReportQuerySchema>, "groupBy">;
+export interface AiUsage {
+  used: number;
+  // Null on plans with unlimited credits.
+  limit: number | null;
+  remaining: number | null;
+  // The billing period the usage counts towards; credits reset at its end.
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  resetsAt: Date | null;
+}
+export interface AiUsageReportRow {
+  // The user id, model, operation or day (YYYY-MM-DD) the row covers.
+  key: string | null;
+  // The user's email when grouping by user.
+  label: string | null;
+  generations: number;
+  promptTokens: number;
+  completionTokens: number;
+  estimatedCostMicros: number;
+  // Generations with no price for their model, left out of the cost.
+  unpricedGenerations: number;
+}
@@ -0,0 +1,18 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(import.meta.dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+    // Tests mock storage; this only keeps server/db.ts importable.
+    env: {
+      DATABASE_URL: "postgres://test@localhost/test",
+    },
+  },
+});